@@ -7,6 +7,8 @@ import { Dashboard } from './pages/Dashboard';
 import { UserManagement } from './pages/UserManagement';
 import { Projects } from './pages/Projects';
 import { ProjectForms } from './pages/ProjectForms';
+import { FormBuilder } from './pages/FormBuilder';
+import { FormPreview } from './pages/FormPreview';
 import { ProjectSubmissions } from './pages/ProjectSubmissions';
 import { Forms } from './pages/Forms';
 import { FormCollect } from './pages/FormCollect';
@@ -54,6 +56,30 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/projects/:projectId/forms/new"
+            element={
+              <ProtectedRoute requireAdmin>
+                <FormBuilder />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/projects/:projectId/forms/preview"
+            element={
+              <ProtectedRoute requireAdmin>
+                <FormPreview />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/projects/:projectId/forms/:formId/preview"
+            element={
+              <ProtectedRoute requireAdmin>
+                <FormPreview />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/projects/:projectId/assign-users"
             element={
@@ -0,0 +1,312 @@
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import { parseXForm, translateForm, ParsedForm } from '../lib/xmlParser';
+import { evaluateForm, getValidationIssues, getRelevantValues, type FormValues } from '../lib/formLogic';
+import { getFormAvailability } from '../lib/formLifecycle';
+import { submitFormData } from '../lib/submissions';
+import { ArrowLeft, Save, CloudOff, CalendarOff, FlaskConical } from 'lucide-react';
+import {
+  getOfflineForm,
+  updateOfflineFormSchedule,
+  saveFormProgress,
+  getFormProgress,
+  getLanguagePreference,
+  saveLanguagePreference,
+} from '../lib/offlineStorage';
+import { downloadFormMedia, readFormMediaFiles, readInstanceMedia } from '../lib/formMedia';
+import { useOnlineStatus, OnlineStatus } from './OnlineStatus';
+import { FormPager, LanguageSelect } from './FormRenderer';
+import { MediaQualityContext } from './widgets';
+import type { MediaQuality } from '../lib/mediaQuality';
+import type { Database } from '../lib/database.types';
+
+type FormRow = Database['public']['Tables']['forms']['Row'];
+type ProjectRow = Database['public']['Tables']['projects']['Row'];
+
+interface FormCollectorProps {
+  formId: string;
+  // Called for the back button, after submitting and when the form can't be loaded.
+  onExit: () => void;
+  // Shown when the form isn't stored on the device and there is no connection.
+  offlineMessage: string;
+  // Test submissions ignore the collection schedule and are kept apart from real data.
+  testMode?: boolean;
+}
+
+// The data collection screen: loads a form (from the device when it has been
+// downloaded), keeps progress and the language choice, and submits through the
+// shared pipeline. Both the admin and the field worker collect routes use it.
+export function FormCollector({ formId, onExit, offlineMessage, testMode = false }: FormCollectorProps) {
+  const { user } = useAuth();
+  const userId = user?.id || null;
+  const isOnline = useOnlineStatus();
+  const [form, setForm] = useState<FormRow | null>(null);
+  const [parsedForm, setParsedForm] = useState<ParsedForm | null>(null);
+  const [values, setValues] = useState<FormValues>({});
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [isOfflineMode, setIsOfflineMode] = useState(false);
+  const [mediaQuality, setMediaQuality] = useState<MediaQuality>('medium');
+
+  const [language, setLanguage] = useState<string | null>(null);
+
+  const displayForm = useMemo(
+    () => (parsedForm && language ? translateForm(parsedForm, language) : parsedForm),
+    [parsedForm, language]
+  );
+
+  const formState = useMemo(
+    () => (displayForm ? evaluateForm(displayForm, values) : null),
+    [displayForm, values]
+  );
+
+  const availability = form ? getFormAvailability(form) : null;
+
+  // The parents pass a new onExit on every render; reading it through a ref
+  // keeps that from reloading the form and dropping unsaved answers.
+  const onExitRef = useRef(onExit);
+  useEffect(() => {
+    onExitRef.current = onExit;
+  }, [onExit]);
+
+  const loadForm = useCallback(async () => {
+    try {
+      const offlineForm = await getOfflineForm(formId);
+      let projectId = '';
+
+      if (offlineForm) {
+        projectId = offlineForm.projectId;
+        setForm({
+          id: offlineForm.id,
+          project_id: offlineForm.projectId,
+          name: offlineForm.name,
+          xml_content: offlineForm.xmlContent,
+          version: offlineForm.version,
+          status: offlineForm.status ?? 'published',
+          opens_at: offlineForm.opensAt ?? null,
+          closes_at: offlineForm.closesAt ?? null,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+          description: null,
+          media_files: null,
+          xform_id: null,
+          teable_table_id: null,
+          teable_table_name: null,
+          teable_repeat_tables: {},
+        });
+        if (navigator.onLine) {
+          const { data: schedule } = await supabase
+            .from('forms')
+            .select('status, opens_at, closes_at')
+            .eq('id', formId)
+            .maybeSingle<Pick<FormRow, 'status' | 'opens_at' | 'closes_at'>>();
+
+          if (schedule) {
+            setForm((current) => current && { ...current, ...schedule });
+            await updateOfflineFormSchedule(formId, schedule);
+          }
+        }
+        if (offlineForm.mediaQuality) setMediaQuality(offlineForm.mediaQuality as MediaQuality);
+        const mediaTexts = await readInstanceMedia(offlineForm.media || {});
+        setParsedForm(parseXForm(offlineForm.xmlContent, mediaTexts));
+        setIsOfflineMode(true);
+      } else if (navigator.onLine) {
+        const { data, error } = await supabase
+          .from('forms')
+          .select('*')
+          .eq('id', formId)
+          .maybeSingle<FormRow>();
+
+        if (error) throw error;
+        if (!data) throw new Error('Form not found');
+
+        const media = await downloadFormMedia(readFormMediaFiles(data.media_files));
+        projectId = data.project_id;
+        setForm(data);
+        setParsedForm(parseXForm(data.xml_content, await readInstanceMedia(media)));
+      } else {
+        throw new Error(offlineMessage);
+      }
+
+      if (navigator.onLine) {
+        // The project setting may have changed since the form was downloaded.
+        const { data: project } = await supabase
+          .from('projects')
+          .select('media_quality')
+          .eq('id', projectId)
+          .maybeSingle<Pick<ProjectRow, 'media_quality'>>();
+        if (project) setMediaQuality(project.media_quality as MediaQuality);
+      }
+
+      const savedProgress = await getFormProgress(formId);
+      if (savedProgress) {
+        setValues(savedProgress.data);
+      }
+    } catch (err) {
+      console.error('Error loading form:', err);
+      alert('Failed to load form: ' + (err as Error).message);
+      onExitRef.current();
+    } finally {
+      setLoading(false);
+    }
+  }, [formId, offlineMessage]);
+
+  useEffect(() => {
+    loadForm();
+  }, [loadForm]);
+
+  useEffect(() => {
+    if (parsedForm && Object.keys(values).length > 0) {
+      const timer = setTimeout(() => {
+        saveFormProgress(formId, values, parsedForm.fields).catch(err => {
+          console.error('Auto-save failed:', err);
+        });
+      }, 2000);
+      return () => clearTimeout(timer);
+    }
+  }, [values, formId, parsedForm]);
+
+  useEffect(() => {
+    if (!parsedForm || parsedForm.languages.length < 2) return;
+
+    getLanguagePreference(userId)
+      .then((saved) => {
+        setLanguage(saved && parsedForm.languages.includes(saved) ? saved : parsedForm.defaultLanguage);
+      })
+      .catch(err => {
+        console.error('Failed to load language preference:', err);
+      });
+  }, [parsedForm, userId]);
+
+  const handleLanguageChange = (newLanguage: string) => {
+    setLanguage(newLanguage);
+    saveLanguagePreference(userId, newLanguage).catch(err => {
+      console.error('Failed to save language preference:', err);
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!displayForm || !formState) return;
+
+    // Re-checked here: the form may have closed while it was being filled in.
+    const currentAvailability = form ? getFormAvailability(form) : null;
+    if (currentAvailability && !currentAvailability.open && !testMode) {
+      alert(currentAvailability.reason);
+      return;
+    }
+
+    const issues = getValidationIssues(displayForm, formState);
+    if (issues.length > 0) {
+      alert('Please fix the following before submitting:\n\n' + issues.map((issue) => `• ${issue.label}: ${issue.message}`).join('\n'));
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const result = await submitFormData(
+        {
+          formId,
+          formVersion: form?.version || null,
+          userId,
+          data: getRelevantValues(displayForm, formState),
+          fields: displayForm.fields,
+          isTest: testMode,
+        },
+        isOnline
+      );
+
+      alert(result === 'saved' ? 'Submission saved successfully!' : 'Submission queued! Will sync when online.');
+      onExit();
+    } catch (err) {
+      console.error('Error submitting form:', err);
+      alert('Failed to submit form: ' + (err as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (availability && !availability.open && !testMode) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 max-w-md w-full text-center">
+          <CalendarOff className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">{form?.name}</h2>
+          <p className="text-gray-600 mb-6">{availability.reason}</p>
+          <button
+            onClick={onExit}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Back
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <OnlineStatus />
+      <nav className="bg-white shadow-sm border-b sticky top-0 z-10">
+        <div className="max-w-3xl mx-auto px-4 py-3">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={onExit}
+              className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <div className="flex items-center gap-2">
+              <h1 className="text-lg font-semibold text-gray-900">{form?.name}</h1>
+              {isOfflineMode && (
+                <span className="px-2 py-1 text-xs font-medium bg-amber-100 text-amber-700 rounded-full flex items-center gap-1">
+                  <CloudOff className="w-3 h-3" />
+                  Offline
+                </span>
+              )}
+            </div>
+            <button
+              type="submit"
+              form="collection-form"
+              disabled={submitting}
+              className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 text-sm"
+            >
+              <Save className="w-4 h-4" />
+              {submitting ? 'Saving...' : 'Submit'}
+            </button>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-3xl mx-auto px-4 py-6">
+        {testMode && (
+          <div className="mb-4 p-3 bg-purple-50 border border-purple-200 rounded-lg text-sm text-purple-800 flex items-center gap-2">
+            <FlaskConical className="w-4 h-4 flex-shrink-0" />
+            Test mode: submissions are kept apart from real data and are not synced to Teable.
+          </div>
+        )}
+        {parsedForm && (
+          <LanguageSelect languages={parsedForm.languages} language={language} onChange={handleLanguageChange} />
+        )}
+
+        <form id="collection-form" onSubmit={handleSubmit} className="space-y-6">
+          {displayForm && formState && (
+            <MediaQualityContext.Provider value={mediaQuality}>
+              <FormPager form={displayForm} state={formState} onChange={setValues} submitLabel={submitting ? 'Saving...' : 'Submit'} />
+            </MediaQualityContext.Provider>
+          )}
+        </form>
+      </main>
+    </div>
+  );
+}
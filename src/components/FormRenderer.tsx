@@ -0,0 +1,517 @@
+import { useState, useEffect, useCallback, useMemo, useRef, useId } from 'react';
+import { Plus, Trash2, Languages, ChevronLeft, ChevronRight, ListOrdered, Rows3, AlertCircle } from 'lucide-react';
+import {
+  repeatInstanceKey,
+  companionValues,
+  setAnswer,
+  buildPages,
+  hasAppearance,
+  isPageRelevant,
+  getValidationIssues,
+  FormState,
+  FormValues,
+  NodeState,
+  ValidationIssue,
+} from '../lib/formLogic';
+import type { FormField, FormNode, ParsedForm } from '../lib/xmlParser';
+import { resolveWidget, selectedChoices, toggleChoice, WidgetContext } from './widgets';
+
+interface FormRendererProps {
+  // The form as shown, already translated into the chosen language.
+  form: ParsedForm;
+  state: FormState;
+  onChange: (values: FormValues) => void;
+}
+
+// Renders a form's body with its skip logic, constraints and widgets. Used by
+// the collect pages and by the admin preview, so a preview looks and behaves
+// exactly like data collection.
+export function FormRenderer({ form, state, onChange }: FormRendererProps) {
+  return (
+    <>
+      {form.body.map((node, index) => (
+        <BodyNode
+          key={index}
+          node={node}
+          values={state.values}
+          nodeStates={state.nodes}
+          prefix=""
+          onChange={(path, value, companions) => onChange(setAnswer(state.values, path, value, companions))}
+        />
+      ))}
+    </>
+  );
+}
+
+interface FormPagerProps extends FormRendererProps {
+  // When set, the last screen ends with a submit button with this label.
+  submitLabel?: string;
+}
+
+// One question per screen (field-list groups on one screen), with next/back,
+// a progress bar and a jump-to-question index. Each screen is validated before
+// moving forward. The whole form can still be shown as one scrolling page.
+export function FormPager({ form, state, onChange, submitLabel }: FormPagerProps) {
+  const pages = useMemo(() => buildPages(form), [form]);
+  const [current, setCurrent] = useState(0);
+  const [pageIssues, setPageIssues] = useState<ValidationIssue[]>([]);
+  const [showIndex, setShowIndex] = useState(false);
+  const [singlePage, setSinglePage] = useState(false);
+
+  const [advancePending, setAdvancePending] = useState(false);
+  const topRef = useRef<HTMLDivElement>(null);
+
+  const visible = useMemo(
+    () => pages.map((page, index) => ({ page, index })).filter(({ page }) => isPageRelevant(page, state)),
+    [pages, state]
+  );
+
+  // Stay on the current screen while it is relevant; otherwise show the next
+  // relevant one (or the last, when it was at the end).
+  const upcoming = visible.findIndex(({ index }) => index >= current);
+  const active = upcoming < 0 ? visible.length - 1 : upcoming;
+  const page = visible[active]?.page;
+  const isLast = active === visible.length - 1;
+
+  const goTo = useCallback((visibleIndex: number) => {
+    setCurrent(visible[visibleIndex].index);
+    setPageIssues([]);
+    setShowIndex(false);
+    topRef.current?.scrollIntoView({ block: 'start' });
+  }, [visible]);
+
+  const handleNext = useCallback(() => {
+    if (!page || isLast) return;
+    const issues = getValidationIssues(form, state, [page.node]);
+    if (issues.length > 0) {
+      setPageIssues(issues);
+      return;
+    }
+    goTo(active + 1);
+  }, [page, isLast, form, state, active, goTo]);
+
+  // Widgets with the `quick` appearance ask to move on once answered; that
+  // happens after the answer is in `state`, so the screen validates with it.
+  useEffect(() => {
+    if (!advancePending) return;
+    setAdvancePending(false);
+    handleNext();
+  }, [advancePending, handleNext]);
+
+  if (singlePage || !page) {
+    return (
+      <>
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={() => setSinglePage(false)}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+          >
+            <ChevronRight className="w-4 h-4" />
+            One question per screen
+          </button>
+        </div>
+        <FormRenderer form={form} state={state} onChange={onChange} />
+      </>
+    );
+  }
+
+  const pageLabel = (node: typeof page.node) => node.label || (node.kind === 'field' ? node.name : '');
+
+  return (
+    <div ref={topRef} className="space-y-4 scroll-mt-20">
+      <div>
+        <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+          <span>{active + 1} of {visible.length}</span>
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={() => setShowIndex(!showIndex)}
+              className="flex items-center gap-1 text-blue-600 hover:text-blue-700"
+            >
+              <ListOrdered className="w-4 h-4" />
+              Questions
+            </button>
+            <button
+              type="button"
+              onClick={() => setSinglePage(true)}
+              className="flex items-center gap-1 text-blue-600 hover:text-blue-700"
+            >
+              <Rows3 className="w-4 h-4" />
+              Show all
+            </button>
+          </div>
+        </div>
+        <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-blue-600 transition-all"
+            style={{ width: `${((active + 1) / visible.length) * 100}%` }}
+          />
+        </div>
+      </div>
+
+      {showIndex && (
+        <ol className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-80 overflow-y-auto">
+          {visible.map((entry, visibleIndex) => {
+            // Only screens already passed are flagged; later ones simply aren't filled in yet.
+            const hasIssues = visibleIndex < active && getValidationIssues(form, state, [entry.page.node]).length > 0;
+            return (
+              <li key={entry.index}>
+                <button
+                  type="button"
+                  onClick={() => goTo(visibleIndex)}
+                  className={`w-full flex items-center gap-2 px-3 py-2 text-left text-sm hover:bg-gray-50 ${visibleIndex === active ? 'bg-blue-50 text-blue-700' : 'text-gray-700'}`}
+                >
+                  <span className="w-6 text-xs text-gray-400">{visibleIndex + 1}</span>
+                  <span className="flex-1 truncate">
+                    {[...entry.page.groups.map((group) => group.label).filter(Boolean), pageLabel(entry.page.node)].join(' › ')}
+                  </span>
+                  {hasIssues && <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />}
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {page.groups.some((group) => group.label) && (
+        <p className="text-sm font-medium text-gray-500">
+          {page.groups.map((group) => group.label).filter(Boolean).join(' › ')}
+        </p>
+      )}
+
+      <WidgetContext.Provider value={{ advance: () => setAdvancePending(true) }}>
+        <div className="space-y-6">
+          <BodyNode
+            node={page.node}
+            values={state.values}
+            nodeStates={state.nodes}
+            prefix=""
+            onChange={(path, value, companions) => {
+              setPageIssues([]);
+              onChange(setAnswer(state.values, path, value, companions));
+            }}
+          />
+        </div>
+      </WidgetContext.Provider>
+
+      {pageIssues.length > 0 && (
+        <ul className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 space-y-1">
+          {pageIssues.map((issue) => (
+            <li key={issue.key}>• {issue.label}: {issue.message}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-3 pt-2">
+        <button
+          type="button"
+          onClick={() => goTo(active - 1)}
+          disabled={active === 0}
+          className="flex-1 flex items-center justify-center gap-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+        >
+          <ChevronLeft className="w-5 h-5" />
+          Back
+        </button>
+        {!isLast ? (
+          <button
+            type="button"
+            onClick={handleNext}
+            className="flex-1 flex items-center justify-center gap-1 px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Next
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        ) : submitLabel && (
+          <button
+            type="submit"
+            className="flex-1 px-4 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+          >
+            {submitLabel}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface LanguageSelectProps {
+  languages: string[];
+  language: string | null;
+  onChange: (language: string) => void;
+}
+
+export function LanguageSelect({ languages, language, onChange }: LanguageSelectProps) {
+  if (languages.length < 2) return null;
+
+  return (
+    <div className="flex items-center justify-end gap-2 mb-4">
+      <Languages className="w-4 h-4 text-gray-500" />
+      <select
+        value={language || ''}
+        onChange={(e) => onChange(e.target.value)}
+        className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      >
+        {languages.map((lang) => (
+          <option key={lang} value={lang}>
+            {lang}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+interface BodyNodeProps {
+  node: FormNode;
+  values: FormValues;
+  nodeStates: Record<string, NodeState>;
+  prefix: string;
+  onChange: (path: string, value: unknown, companions?: Record<string, unknown>) => void;
+}
+
+function BodyNode({ node, values, nodeStates, prefix, onChange }: BodyNodeProps) {
+  const state = node.path ? nodeStates[`${prefix}${node.path}`] : undefined;
+  if (state && !state.relevant) return null;
+
+  if (node.kind === 'group') {
+    return (
+      <section className="space-y-4">
+        {node.label && (
+          <h2 className="text-base font-semibold text-gray-900 border-b border-gray-200 pb-2">
+            {node.label}
+          </h2>
+        )}
+        <div className="space-y-6 border-l-4 border-blue-100 pl-4">
+          {groupChoiceTables(node.children).map((item, index) =>
+            Array.isArray(item) ? (
+              <ChoiceTable
+                key={index}
+                fields={item}
+                values={values}
+                nodeStates={nodeStates}
+                prefix={prefix}
+                onChange={onChange}
+              />
+            ) : (
+              <BodyNode
+                key={index}
+                node={item}
+                values={values}
+                nodeStates={nodeStates}
+                prefix={prefix}
+                onChange={onChange}
+              />
+            )
+          )}
+        </div>
+      </section>
+    );
+  }
+
+  if (node.hidden) return null;
+
+  if (node.type === 'repeat') {
+    return (
+      <RepeatInput
+        field={node}
+        value={values[node.path]}
+        nodeStates={nodeStates}
+        prefix={prefix}
+        onChange={(value) => onChange(node.path, value)}
+      />
+    );
+  }
+
+  return (
+    <FieldInput
+      field={state?.choices ? { ...node, choices: state.choices } : node}
+      value={values[node.path]}
+      companions={companionValues(values, node.path)}
+      state={state}
+      onChange={(value, companions) => onChange(node.path, value, companions)}
+    />
+  );
+}
+
+const isTableRow = (node: FormNode): node is FormField =>
+  node.kind === 'field' &&
+  (node.type === 'select_one' || node.type === 'select_multiple') &&
+  (hasAppearance(node, 'label') || hasAppearance(node, 'list-nolabel'));
+
+// Consecutive selects with the `label` / `list-nolabel` appearances form one
+// table: the `label` question supplies the column headings and each
+// `list-nolabel` question is a row of buttons.
+function groupChoiceTables(children: FormNode[]): Array<FormNode | FormField[]> {
+  const items: Array<FormNode | FormField[]> = [];
+  children.forEach((child) => {
+    const last = items[items.length - 1];
+    if (!isTableRow(child)) items.push(child);
+    else if (Array.isArray(last)) last.push(child);
+    else items.push([child]);
+  });
+  return items;
+}
+
+interface ChoiceTableProps extends Omit<BodyNodeProps, 'node'> {
+  fields: FormField[];
+}
+
+function ChoiceTable({ fields, values, nodeStates, prefix, onChange }: ChoiceTableProps) {
+  const name = useId();
+  const header = fields.find((field) => hasAppearance(field, 'label')) || fields[0];
+  const rows = fields
+    .filter((field) => !hasAppearance(field, 'label') && !field.hidden)
+    .map((field) => ({ field, state: nodeStates[`${prefix}${field.path}`] }))
+    .filter(({ state }) => !state || state.relevant);
+  const columns = nodeStates[`${prefix}${header.path}`]?.choices || header.choices || [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr>
+            <th className="text-left font-medium text-gray-900 pb-2 pr-3">{hasAppearance(header, 'label') ? header.label : ''}</th>
+            {columns.map((choice) => (
+              <th key={choice.value} className="px-2 pb-2 font-medium text-gray-700 text-center">{choice.label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.map(({ field, state }) => {
+            const value = values[field.path];
+            const required = state?.required ?? field.required;
+            return (
+              <tr key={field.path}>
+                <td className="py-3 pr-3 text-gray-900">
+                  {field.label}
+                  {required && <span className="text-red-500 ml-1">*</span>}
+                  {state?.constraintError && (
+                    <p className="mt-1 text-xs text-red-600">{state.constraintError}</p>
+                  )}
+                </td>
+                {columns.map((choice) => (
+                  <td key={choice.value} className="px-2 py-3 text-center">
+                    {field.type === 'select_one' ? (
+                      <input
+                        type="radio"
+                        name={`${name}-${field.path}`}
+                        checked={value === choice.value}
+                        onChange={() => onChange(field.path, choice.value)}
+                        disabled={state?.readonly}
+                        aria-label={choice.label}
+                        className="w-4 h-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                      />
+                    ) : (
+                      <input
+                        type="checkbox"
+                        checked={selectedChoices(value).includes(choice.value)}
+                        onChange={() => onChange(field.path, toggleChoice({ ...field, choices: columns }, value, choice.value))}
+                        disabled={state?.readonly}
+                        aria-label={choice.label}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                    )}
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+interface FieldInputProps {
+  field: FormField;
+  value: unknown;
+  companions: Record<string, unknown>;
+  state?: NodeState;
+  onChange: (value: unknown, companions?: Record<string, unknown>) => void;
+}
+
+function FieldInput({ field, value, companions, state, onChange }: FieldInputProps) {
+  const required = state?.required ?? field.required;
+
+  const Widget = resolveWidget(field);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <label className="block text-sm font-medium text-gray-900 mb-2">
+        {field.label}
+        {required && <span className="text-red-500 ml-1">*</span>}
+      </label>
+      {field.hint && (
+        <p className="text-sm text-gray-600 mb-3">{field.hint}</p>
+      )}
+      <fieldset disabled={state?.readonly}>
+        {Widget && <Widget field={field} value={value} companions={companions} required={required} onChange={onChange} />}
+      </fieldset>
+      {state?.constraintError && (
+        <p className="mt-2 text-sm text-red-600">{state.constraintError}</p>
+      )}
+    </div>
+  );
+}
+
+interface RepeatInputProps extends Omit<FieldInputProps, 'companions'> {
+  nodeStates: Record<string, NodeState>;
+  prefix: string;
+}
+
+function RepeatInput({ field, value, nodeStates, prefix, onChange }: RepeatInputProps) {
+  const instances: FormValues[] = Array.isArray(value) ? value : [];
+
+  const updateInstance = (index: number, path: string, fieldValue: unknown, companions?: Record<string, unknown>) => {
+    onChange(instances.map((instance, i) => (i === index ? setAnswer(instance, path, fieldValue, companions) : instance)));
+  };
+
+  const removeInstance = (index: number) => {
+    if (!confirm(`Remove ${field.label} #${index + 1}?`)) return;
+    onChange(instances.filter((_, i) => i !== index));
+  };
+
+  return (
+    <section className="space-y-4">
+      <h2 className="text-base font-semibold text-gray-900 border-b border-gray-200 pb-2">
+        {field.label}
+      </h2>
+      {instances.map((instance, index) => (
+        <div key={index} className="space-y-4 rounded-xl border border-blue-200 bg-blue-50 p-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-blue-900">
+              {field.label} #{index + 1}
+            </h3>
+            <button
+              type="button"
+              onClick={() => removeInstance(index)}
+              className="flex items-center gap-1 px-2 py-1 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+              Remove
+            </button>
+          </div>
+          {field.children?.map((child, childIndex) => (
+            <BodyNode
+              key={childIndex}
+              node={child}
+              values={instance}
+              nodeStates={nodeStates}
+              prefix={`${repeatInstanceKey(prefix, field.path, index)}/`}
+              onChange={(path, childValue, companions) => updateInstance(index, path, childValue, companions)}
+            />
+          ))}
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...instances, {}])}
+        className="w-full flex items-center justify-center gap-2 px-4 py-3 border-2 border-dashed border-blue-300 text-blue-600 rounded-lg hover:bg-blue-50 transition-colors"
+      >
+        <Plus className="w-5 h-5" />
+        {instances.length > 0 ? `Add another ${field.label}` : `Add ${field.label}`}
+      </button>
+    </section>
+  );
+}
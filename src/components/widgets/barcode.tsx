@@ -0,0 +1,146 @@
+import { useState, useEffect, useRef } from 'react';
+import { ScanLine, X } from 'lucide-react';
+import { BarcodeFormat, BrowserMultiFormatReader, type IScannerControls } from '@zxing/browser';
+import { DecodeHintType } from '@zxing/library';
+import { textValue, type WidgetProps } from './registry';
+
+// The Barcode Detection API isn't in TypeScript's DOM types yet.
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+const SCAN_FORMATS = ['qr_code', 'code_128', 'ean_13', 'ean_8', 'data_matrix'];
+
+// The same formats for the ZXing decoder used where BarcodeDetector is missing.
+const ZXING_FORMATS = [
+  BarcodeFormat.QR_CODE,
+  BarcodeFormat.CODE_128,
+  BarcodeFormat.EAN_13,
+  BarcodeFormat.EAN_8,
+  BarcodeFormat.DATA_MATRIX,
+];
+
+// Scans with the back camera through the browser's BarcodeDetector (Chrome and
+// Android WebView), or the ZXing decoder in browsers without it (Safari,
+// Firefox); when the camera can't be used, the code is typed in.
+export function BarcodeWidget({ value, required, onChange }: WidgetProps) {
+  const [scanning, setScanning] = useState(false);
+  const [error, setError] = useState('');
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const timerRef = useRef<number | null>(null);
+  const zxingRef = useRef<IScannerControls | null>(null);
+
+  const stopScanning = () => {
+    if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+    timerRef.current = null;
+    zxingRef.current?.stop();
+    zxingRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setScanning(false);
+  };
+
+  useEffect(() => stopScanning, []);
+
+  const startScanning = async () => {
+    setError('');
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      streamRef.current = stream;
+      setScanning(true);
+
+      // The video element only exists once scanning has rendered.
+      await new Promise(resolve => requestAnimationFrame(resolve));
+      const video = videoRef.current;
+      if (!video) throw new Error('Camera preview is not available');
+      video.srcObject = stream;
+      await video.play();
+
+      if (!Detector) {
+        const hints = new Map([[DecodeHintType.POSSIBLE_FORMATS, ZXING_FORMATS]]);
+        const controls = await new BrowserMultiFormatReader(hints).decodeFromVideoElement(video, (result) => {
+          // Frames without a code report an error; scanning just carries on.
+          if (!result || !streamRef.current) return;
+          onChange(result.getText());
+          stopScanning();
+        });
+        // Scanning may have been stopped while the decoder was starting.
+        if (streamRef.current) zxingRef.current = controls;
+        else controls.stop();
+        return;
+      }
+
+      const supported = await Detector.getSupportedFormats();
+      const detector = new Detector({ formats: SCAN_FORMATS.filter((format) => supported.includes(format)) });
+
+      const scan = async () => {
+        if (!streamRef.current) return;
+        try {
+          const [barcode] = await detector.detect(video);
+          if (barcode?.rawValue) {
+            onChange(barcode.rawValue);
+            stopScanning();
+            return;
+          }
+        } catch (err) {
+          console.error('Barcode detection failed:', err);
+        }
+        timerRef.current = window.setTimeout(scan, 250);
+      };
+      scan();
+    } catch (err) {
+      console.error('Error starting barcode scanner:', err);
+      setError('Failed to start the camera: ' + (err as Error).message);
+      stopScanning();
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {scanning ? (
+        <div className="relative">
+          <video ref={videoRef} muted playsInline className="w-full rounded-lg bg-black" />
+          <div className="absolute inset-x-8 top-1/2 h-0.5 bg-red-500/80" />
+          <button
+            type="button"
+            onClick={stopScanning}
+            className="absolute top-2 right-2 p-2 bg-white/90 text-gray-700 rounded-full hover:bg-white"
+            aria-label="Stop scanning"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={startScanning}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors"
+        >
+          <ScanLine className="w-5 h-5" />
+          {value ? 'Scan Again' : 'Scan Code'}
+        </button>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <input
+        type="text"
+        value={textValue(value)}
+        onChange={(e) => onChange(e.target.value)}
+        required={required}
+        placeholder="Or type the code"
+        className="w-full px-4 py-3 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+import { useContext, useId } from 'react';
+import { ChevronUp, ChevronDown } from 'lucide-react';
+import { hasAppearance } from '../../lib/formLogic';
+import type { FormField } from '../../lib/xmlParser';
+import { WidgetContext, textValue, type WidgetProps } from './registry';
+import { selectedChoices, toggleChoice } from './choices';
+
+const COLUMN_CLASSES: Record<string, string> = {
+  '1': 'grid-cols-1',
+  '2': 'grid-cols-2',
+  '3': 'grid-cols-3',
+  '4': 'grid-cols-4',
+  '5': 'grid-cols-5',
+};
+
+// `columns` lays choices out side by side (`columns-3` fixes the count and
+// `columns-pack` fits as many as there is room for); `no-buttons` hides the
+// radio buttons and checkboxes so the choice labels are tapped directly.
+function choiceLayout(field: FormField): { containerClass: string; showButtons: boolean } {
+  const appearances = (field.appearance || '').split(/\s+/);
+  const fixed = appearances.map((appearance) => appearance.match(/^columns-(\d+)$/)?.[1]).find(Boolean);
+
+  let containerClass = 'grid grid-cols-1 gap-2';
+  if (fixed) containerClass = `grid ${COLUMN_CLASSES[fixed] || 'grid-cols-5'} gap-2`;
+  else if (appearances.includes('columns-pack')) containerClass = 'flex flex-wrap gap-2';
+  else if (appearances.includes('columns')) containerClass = 'grid grid-cols-2 sm:grid-cols-3 gap-2';
+
+  return { containerClass, showButtons: !appearances.includes('no-buttons') };
+}
+
+function choiceClass(checked: boolean, showButtons: boolean): string {
+  const highlight = !showButtons && checked ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:bg-gray-50';
+  return `flex items-center gap-3 px-4 py-3 border rounded-lg cursor-pointer ${highlight} ${showButtons ? '' : 'justify-center text-center'}`;
+}
+
+export function TextWidget({ value, required, onChange }: WidgetProps) {
+  return (
+    <input
+      type="text"
+      value={textValue(value)}
+      onChange={(e) => onChange(e.target.value)}
+      required={required}
+      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+    />
+  );
+}
+
+export function TextAreaWidget({ value, required, onChange }: WidgetProps) {
+  return (
+    <textarea
+      value={textValue(value)}
+      onChange={(e) => onChange(e.target.value)}
+      required={required}
+      rows={4}
+      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+    />
+  );
+}
+
+// `numbers` on a text question: a numeric keypad, but the answer stays text
+// (phone numbers, IDs with leading zeros).
+export function NumericTextWidget({ value, required, onChange }: WidgetProps) {
+  return (
+    <input
+      type="text"
+      inputMode="numeric"
+      value={textValue(value)}
+      onChange={(e) => onChange(e.target.value.replace(/[^0-9.-]/g, ''))}
+      required={required}
+      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+    />
+  );
+}
+
+export function NumberWidget({ field, value, required, onChange }: WidgetProps) {
+  return (
+    <input
+      type="number"
+      value={textValue(value)}
+      onChange={(e) => onChange(e.target.value ? parseFloat(e.target.value) : null)}
+      required={required}
+      step={field.type === 'decimal' ? '0.01' : '1'}
+      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+    />
+  );
+}
+
+export function DateWidget({ value, required, onChange }: WidgetProps) {
+  return (
+    <input
+      type="date"
+      value={textValue(value)}
+      onChange={(e) => onChange(e.target.value)}
+      required={required}
+      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+    />
+  );
+}
+
+// Dates are still stored as full dates: the 1st of the month for `month-year`
+// and 1 January for `year`, as ODK does.
+export function MonthYearWidget({ value, required, onChange }: WidgetProps) {
+  return (
+    <input
+      type="month"
+      value={typeof value === 'string' ? value.slice(0, 7) : ''}
+      onChange={(e) => onChange(e.target.value ? `${e.target.value}-01` : '')}
+      required={required}
+      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+    />
+  );
+}
+
+export function YearWidget({ value, required, onChange }: WidgetProps) {
+  return (
+    <input
+      type="number"
+      min={1900}
+      max={2100}
+      value={typeof value === 'string' ? value.slice(0, 4) : ''}
+      onChange={(e) => onChange(/^\d{4}$/.test(e.target.value) ? `${e.target.value}-01-01` : '')}
+      required={required}
+      placeholder="YYYY"
+      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+    />
+  );
+}
+
+// Radio buttons, ODK's default for single choice. With `quick`, choosing an
+// answer moves straight on to the next screen.
+export function SelectOneWidget({ field, value, required, onChange }: WidgetProps) {
+  const name = useId();
+  const { advance } = useContext(WidgetContext);
+  const { containerClass, showButtons } = choiceLayout(field);
+  const quick = hasAppearance(field, 'quick');
+
+  return (
+    <div className={containerClass}>
+      {field.choices?.map((choice, idx) => (
+        <label key={idx} className={choiceClass(value === choice.value, showButtons)}>
+          <input
+            type="radio"
+            name={name}
+            checked={value === choice.value}
+            onChange={() => {
+              onChange(choice.value);
+              if (quick) advance?.();
+            }}
+            required={required}
+            className={showButtons ? 'w-4 h-4 text-blue-600 border-gray-300 focus:ring-blue-500' : 'sr-only'}
+          />
+          <span className="text-gray-900">{choice.label}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+// `likert`: the choices as points on a horizontal scale.
+export function LikertWidget({ field, value, required, onChange }: WidgetProps) {
+  const name = useId();
+
+  return (
+    <div className="flex items-start justify-between gap-1">
+      {field.choices?.map((choice, idx) => (
+        <label key={idx} className="flex-1 flex flex-col items-center gap-2 cursor-pointer text-center">
+          <input
+            type="radio"
+            name={name}
+            checked={value === choice.value}
+            onChange={() => onChange(choice.value)}
+            required={required}
+            className="w-6 h-6 text-blue-600 border-gray-300 focus:ring-blue-500"
+          />
+          <span className="text-xs text-gray-700">{choice.label}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+// `minimal`: a compact dropdown.
+export function DropdownWidget({ field, value, required, onChange }: WidgetProps) {
+  return (
+    <select
+      value={textValue(value)}
+      onChange={(e) => onChange(e.target.value)}
+      required={required}
+      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+    >
+      <option value="">Select an option</option>
+      {field.choices?.map((choice, idx) => (
+        <option key={idx} value={choice.value}>
+          {choice.label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export function SelectMultipleWidget({ field, value, onChange }: WidgetProps) {
+  const selected = selectedChoices(value);
+  const { containerClass, showButtons } = choiceLayout(field);
+
+  return (
+    <div className={containerClass}>
+      {field.choices?.map((choice, idx) => (
+        <label key={idx} className={choiceClass(selected.includes(choice.value), showButtons)}>
+          <input
+            type="checkbox"
+            checked={selected.includes(choice.value)}
+            onChange={() => onChange(toggleChoice(field, value, choice.value))}
+            className={showButtons ? 'w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500' : 'sr-only'}
+          />
+          <span className="text-gray-900">{choice.label}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+// `minimal` for multiple choice: the selection is summarised and the
+// checkboxes open on demand.
+export function MultiDropdownWidget({ field, value, onChange }: WidgetProps) {
+  const selected = selectedChoices(value);
+  const summary = (field.choices || [])
+    .filter((choice) => selected.includes(choice.value))
+    .map((choice) => choice.label)
+    .join(', ');
+
+  return (
+    <details className="border border-gray-300 rounded-lg">
+      <summary className="px-4 py-3 cursor-pointer text-gray-900">
+        {summary || <span className="text-gray-500">Select options</span>}
+      </summary>
+      <div className="border-t border-gray-200 p-2 space-y-1">
+        {field.choices?.map((choice, idx) => (
+          <label key={idx} className="flex items-center gap-3 px-2 py-2 rounded hover:bg-gray-50 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selected.includes(choice.value)}
+              onChange={() => onChange(toggleChoice(field, value, choice.value))}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span className="text-gray-900">{choice.label}</span>
+          </label>
+        ))}
+      </div>
+    </details>
+  );
+}
+
+// A slider from the question's start to end (start may be the larger one).
+// It stays unanswered until moved; `picker` shows the steps as a dropdown.
+export function RangeWidget({ field, value, required, onChange }: WidgetProps) {
+  const { start, end, step } = field.range || { start: 1, end: 10, step: 1 };
+  const min = Math.min(start, end);
+  const max = Math.max(start, end);
+  const stepSize = Math.abs(step) || 1;
+  const hasValue = value !== undefined && value !== null && value !== '';
+
+  if (hasAppearance(field, 'picker')) {
+    const count = Math.floor((max - min) / stepSize + 1e-9) + 1;
+    const steps = Array.from({ length: count }, (_, index) => Number((start + (start <= end ? 1 : -1) * index * stepSize).toFixed(10)));
+    return (
+      <select
+        value={hasValue ? String(value) : ''}
+        onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+        required={required}
+        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      >
+        <option value="">Select a value</option>
+        {steps.map((stepValue) => (
+          <option key={stepValue} value={stepValue}>
+            {stepValue}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-3">
+        <span className="text-sm text-gray-500">{start}</span>
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={stepSize}
+          value={hasValue ? Number(value) : start}
+          onChange={(e) => onChange(Number(e.target.value))}
+          onPointerUp={(e) => !hasValue && onChange(Number(e.currentTarget.value))}
+          style={start > end ? { direction: 'rtl' } : undefined}
+          className={`flex-1 accent-blue-600 ${hasValue ? '' : 'opacity-50'}`}
+        />
+        <span className="text-sm text-gray-500">{end}</span>
+      </div>
+      <p className="mt-2 text-center text-lg font-semibold text-gray-900">
+        {hasValue ? String(value) : <span className="text-sm font-normal text-gray-500">Not set</span>}
+      </p>
+    </div>
+  );
+}
+
+// Rank answers list every choice value in order of preference, separated by
+// spaces. The suggested order only becomes the answer once confirmed or changed.
+export function RankWidget({ field, value, onChange }: WidgetProps) {
+  const choices = field.choices || [];
+  const ranked = selectedChoices(value).filter((choiceValue) => choices.some((choice) => choice.value === choiceValue));
+  const order = [...ranked, ...choices.map((choice) => choice.value).filter((choiceValue) => !ranked.includes(choiceValue))];
+
+  const move = (index: number, offset: number) => {
+    const next = [...order];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next.join(' '));
+  };
+
+  return (
+    <div className="space-y-2">
+      <ol className="space-y-2">
+        {order.map((choiceValue, index) => (
+          <li key={choiceValue} className="flex items-center gap-3 px-4 py-2 border border-gray-300 rounded-lg">
+            <span className={`w-6 text-sm font-semibold ${ranked.length > 0 ? 'text-blue-600' : 'text-gray-400'}`}>{index + 1}</span>
+            <span className="flex-1 text-gray-900">{choices.find((choice) => choice.value === choiceValue)?.label}</span>
+            <button
+              type="button"
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              className="p-1 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-30"
+              aria-label="Move up"
+            >
+              <ChevronUp className="w-5 h-5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => move(index, 1)}
+              disabled={index === order.length - 1}
+              className="p-1 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-30"
+              aria-label="Move down"
+            >
+              <ChevronDown className="w-5 h-5" />
+            </button>
+          </li>
+        ))}
+      </ol>
+      {ranked.length === 0 && choices.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onChange(order.join(' '))}
+          className="w-full px-4 py-2 text-sm border border-blue-300 text-blue-600 rounded-lg hover:bg-blue-50 transition-colors"
+        >
+          Keep this order
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function NoteWidget({ value }: WidgetProps) {
+  return value !== undefined && value !== null && value !== '' ? (
+    <p className="text-gray-900">{String(value)}</p>
+  ) : null;
+}
+
+export function TriggerWidget({ value, onChange }: WidgetProps) {
+  return (
+    <label className="flex items-center gap-3 px-4 py-3 border border-gray-300 rounded-lg hover:bg-gray-50 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={value === 'OK'}
+        onChange={(e) => onChange(e.target.checked ? 'OK' : '')}
+        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+      />
+      <span className="text-gray-900">OK</span>
+    </label>
+  );
+}
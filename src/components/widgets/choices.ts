@@ -0,0 +1,15 @@
+import type { FormField } from '../../lib/xmlParser';
+
+export function selectedChoices(value: unknown): string[] {
+  return typeof value === 'string' ? value.split(' ').filter(Boolean) : [];
+}
+
+// Multiple-choice answers are stored the ODK way: selected values separated by
+// spaces, in choice order, e.g. "maize beans".
+export function toggleChoice(field: FormField, value: unknown, choiceValue: string): string {
+  const selected = selectedChoices(value);
+  const next = selected.includes(choiceValue)
+    ? selected.filter((v) => v !== choiceValue)
+    : [...selected, choiceValue];
+  return (field.choices || []).map((c) => c.value).filter((v) => next.includes(v)).join(' ');
+}
@@ -0,0 +1,33 @@
+import type { WidgetProps } from './registry';
+
+// ODK stores times with the device's UTC offset, e.g. "14:30:00.000+02:00".
+function utcOffset(date: Date): string {
+  const minutes = -date.getTimezoneOffset();
+  const hours = String(Math.floor(Math.abs(minutes) / 60)).padStart(2, '0');
+  return `${minutes >= 0 ? '+' : '-'}${hours}:${String(Math.abs(minutes) % 60).padStart(2, '0')}`;
+}
+
+export function TimeWidget({ value, required, onChange }: WidgetProps) {
+  return (
+    <input
+      type="time"
+      value={typeof value === 'string' ? value.slice(0, 5) : ''}
+      onChange={(e) => onChange(e.target.value ? `${e.target.value}:00.000${utcOffset(new Date())}` : '')}
+      required={required}
+      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+    />
+  );
+}
+
+// Stored as "2024-05-01T14:30:00.000+02:00", local time plus its offset.
+export function DateTimeWidget({ value, required, onChange }: WidgetProps) {
+  return (
+    <input
+      type="datetime-local"
+      value={typeof value === 'string' ? value.slice(0, 16) : ''}
+      onChange={(e) => onChange(e.target.value ? `${e.target.value}:00.000${utcOffset(new Date(e.target.value))}` : '')}
+      required={required}
+      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+    />
+  );
+}
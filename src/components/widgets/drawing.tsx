@@ -0,0 +1,395 @@
+import { useState, useEffect, useCallback, useRef, useContext } from 'react';
+import { Undo2, Eraser, Pen, MoveUpRight, Type, Camera, ImageIcon, RotateCcw } from 'lucide-react';
+import { MediaQualityContext, textValue, type WidgetProps } from './registry';
+import { readFileAsDataURL, mediaAccept } from './files';
+import { MediaSize } from './media';
+import { mediaQualitySettings, photoMaxPixels, compressImage, dataUrlSize } from '../../lib/mediaQuality';
+
+type DrawingTool = 'pen' | 'arrow' | 'text';
+
+// Arrows use their first and last points; text is written at its first point.
+interface Stroke {
+  tool: DrawingTool;
+  color: string;
+  width: number;
+  points: Array<[number, number]>;
+  text?: string;
+}
+
+const TOOL_OPTIONS: Array<{ tool: DrawingTool; label: string; icon: typeof Pen }> = [
+  { tool: 'pen', label: 'Pen', icon: Pen },
+  { tool: 'arrow', label: 'Arrow', icon: MoveUpRight },
+  { tool: 'text', label: 'Text', icon: Type },
+];
+
+function drawStroke(context: CanvasRenderingContext2D, stroke: Stroke) {
+  context.strokeStyle = stroke.color;
+  context.fillStyle = stroke.color;
+  context.lineWidth = stroke.width;
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+  const [start] = stroke.points;
+  const end = stroke.points[stroke.points.length - 1];
+
+  if (stroke.tool === 'text') {
+    context.font = `bold ${stroke.width * 6}px sans-serif`;
+    context.textBaseline = 'middle';
+    context.lineWidth = stroke.width;
+    context.strokeStyle = '#ffffff';
+    context.strokeText(stroke.text || '', start[0], start[1]);
+    context.fillText(stroke.text || '', start[0], start[1]);
+    return;
+  }
+
+  context.beginPath();
+  if (stroke.tool === 'arrow') {
+    const angle = Math.atan2(end[1] - start[1], end[0] - start[0]);
+    const head = stroke.width * 4 + 12;
+    context.moveTo(start[0], start[1]);
+    context.lineTo(end[0], end[1]);
+    context.moveTo(end[0] - head * Math.cos(angle - Math.PI / 7), end[1] - head * Math.sin(angle - Math.PI / 7));
+    context.lineTo(end[0], end[1]);
+    context.lineTo(end[0] - head * Math.cos(angle + Math.PI / 7), end[1] - head * Math.sin(angle + Math.PI / 7));
+  } else {
+    stroke.points.forEach(([x, y], index) => (index === 0 ? context.moveTo(x, y) : context.lineTo(x, y)));
+    if (stroke.points.length === 1) context.lineTo(start[0] + 0.1, start[1]);
+  }
+  context.stroke();
+}
+
+interface DrawingPadProps extends Pick<WidgetProps, 'value' | 'onChange'> {
+  // Drawing size in canvas pixels; the canvas is scaled to the widget's width.
+  width: number;
+  height: number;
+  colors: string[];
+  penWidth: number;
+  tools?: DrawingTool[];
+  mimeType?: 'image/png' | 'image/jpeg';
+  // Hidden when the widget offers its own way to start over.
+  clearable?: boolean;
+  // Drawn under the strokes, e.g. the signature line.
+  guide?: (context: CanvasRenderingContext2D) => void;
+}
+
+// A canvas drawn on with a finger, stylus or mouse. The drawing is stored as a
+// data URL after every stroke; an earlier answer is kept as the background, so
+// a drawing can be added to when coming back to the question.
+function DrawingPad({
+  value,
+  onChange,
+  width,
+  height,
+  colors,
+  penWidth,
+  tools = ['pen'],
+  mimeType = 'image/png',
+  clearable = true,
+  guide,
+}: DrawingPadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const strokesRef = useRef<Stroke[]>([]);
+  const currentRef = useRef<Stroke | null>(null);
+  const [background, setBackground] = useState<HTMLImageElement | null>(null);
+  const [color, setColor] = useState(colors[0]);
+  const [tool, setTool] = useState<DrawingTool>(tools[0]);
+  const [strokeCount, setStrokeCount] = useState(0);
+
+  // Only the answer the pad opens with becomes the background; later values
+  // are the pad's own drawing.
+  const [initialValue] = useState(value);
+
+  const redraw = useCallback((image: HTMLImageElement | null) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+    if (image) context.drawImage(image, 0, 0, width, height);
+    else guide?.(context);
+    strokesRef.current.forEach((stroke) => drawStroke(context, stroke));
+  }, [width, height, guide]);
+
+  useEffect(() => {
+    if (typeof initialValue === 'string' && initialValue.startsWith('data:image')) {
+      const image = new Image();
+      image.onload = () => {
+        setBackground(image);
+        redraw(image);
+      };
+      image.src = initialValue;
+    } else {
+      redraw(null);
+    }
+  }, [initialValue, redraw]);
+
+  const save = () => {
+    if (strokesRef.current.length === 0 && !background) {
+      onChange('');
+      return;
+    }
+    onChange(canvasRef.current?.toDataURL(mimeType, 0.9) || '');
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [((e.clientX - rect.left) / rect.width) * width, ((e.clientY - rect.top) / rect.height) * height];
+  };
+
+  const addStroke = (stroke: Stroke) => {
+    strokesRef.current.push(stroke);
+    setStrokeCount(strokesRef.current.length);
+    save();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toCanvasPoint(e);
+    const context = canvasRef.current?.getContext('2d');
+
+    if (tool === 'text') {
+      const text = prompt('Text to add:');
+      if (!text?.trim() || !context) return;
+      const stroke: Stroke = { tool, color, width: penWidth, points: [point], text: text.trim() };
+      drawStroke(context, stroke);
+      addStroke(stroke);
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    currentRef.current = { tool, color, width: penWidth, points: [point] };
+    if (context && tool === 'pen') drawStroke(context, currentRef.current);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = currentRef.current;
+    const context = canvasRef.current?.getContext('2d');
+    if (!stroke || !context) return;
+    stroke.points.push(toCanvasPoint(e));
+
+    if (stroke.tool === 'arrow') {
+      redraw(background);
+      drawStroke(context, stroke);
+    } else {
+      drawStroke(context, { ...stroke, points: stroke.points.slice(-2) });
+    }
+  };
+
+  const handlePointerUp = () => {
+    const stroke = currentRef.current;
+    if (!stroke) return;
+    currentRef.current = null;
+    if (stroke.tool === 'arrow' && stroke.points.length < 2) return;
+    addStroke(stroke);
+  };
+
+  const undo = () => {
+    strokesRef.current.pop();
+    setStrokeCount(strokesRef.current.length);
+    redraw(background);
+    save();
+  };
+
+  const clear = () => {
+    strokesRef.current = [];
+    setStrokeCount(0);
+    setBackground(null);
+    redraw(null);
+    onChange('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="w-full border border-gray-300 rounded-lg bg-white touch-none cursor-crosshair"
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        {tools.length > 1 &&
+          TOOL_OPTIONS.filter((option) => tools.includes(option.tool)).map(({ tool: option, label, icon: Icon }) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setTool(option)}
+              className={`p-2 rounded-lg border ${option === tool ? 'border-blue-600 bg-blue-50 text-blue-600' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+              aria-label={label}
+              title={label}
+            >
+              <Icon className="w-4 h-4" />
+            </button>
+          ))}
+        {colors.length > 1 &&
+          colors.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setColor(option)}
+              className={`w-7 h-7 rounded-full border-2 ${option === color ? 'border-blue-600 ring-2 ring-blue-200' : 'border-gray-300'}`}
+              style={{ backgroundColor: option }}
+              aria-label={`Pen colour ${option}`}
+            />
+          ))}
+        <div className="flex-1" />
+        <button
+          type="button"
+          onClick={undo}
+          disabled={strokeCount === 0}
+          className="flex items-center gap-1 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Undo2 className="w-4 h-4" />
+          Undo
+        </button>
+        {clearable && (
+          <button
+            type="button"
+            onClick={clear}
+            disabled={strokeCount === 0 && !background}
+            className="flex items-center gap-1 px-3 py-2 border border-gray-300 text-red-600 rounded-lg text-sm hover:bg-red-50 disabled:opacity-50"
+          >
+            <Eraser className="w-4 h-4" />
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const drawSignatureLine = (context: CanvasRenderingContext2D) => {
+  context.strokeStyle = '#9ca3af';
+  context.lineWidth = 2;
+  context.beginPath();
+  context.moveTo(40, 240);
+  context.lineTo(760, 240);
+  context.stroke();
+  context.fillStyle = '#9ca3af';
+  context.font = '28px sans-serif';
+  context.fillText('×', 40, 228);
+};
+
+// `appearance="signature"` on an image upload.
+export function SignatureWidget({ value, onChange }: WidgetProps) {
+  return (
+    <DrawingPad
+      value={value}
+      onChange={onChange}
+      width={800}
+      height={300}
+      colors={['#111827']}
+      penWidth={4}
+      guide={drawSignatureLine}
+    />
+  );
+}
+
+// `appearance="draw"` on an image upload: a freehand sketch.
+export function DrawWidget({ value, onChange }: WidgetProps) {
+  return (
+    <DrawingPad
+      value={value}
+      onChange={onChange}
+      width={800}
+      height={600}
+      colors={['#111827', '#dc2626', '#2563eb', '#16a34a', '#f59e0b']}
+      penWidth={5}
+    />
+  );
+}
+
+const MAX_ANNOTATE_WIDTH = 1600;
+
+// `appearance="annotate"` on an image upload: a photo taken or picked, then
+// marked up with pen, arrows and text. The answer is the flattened JPEG; the
+// unmarked photo is kept as the `original` companion value.
+export function AnnotateWidget({ field, value, companions, onChange }: WidgetProps) {
+  const settings = mediaQualitySettings(useContext(MediaQualityContext));
+  const original =
+    typeof companions.original === 'string' && companions.original
+      ? companions.original
+      : typeof value === 'string' && value
+        ? value
+        : undefined;
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [session, setSession] = useState(0);
+  const [pickedSize, setPickedSize] = useState<number | undefined>();
+
+  useEffect(() => {
+    if (!original) {
+      setSize(null);
+      return;
+    }
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, MAX_ANNOTATE_WIDTH / image.naturalWidth);
+      setSize({ width: Math.round(image.naturalWidth * scale), height: Math.round(image.naturalHeight * scale) });
+    };
+    image.src = original;
+  }, [original]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const picked = await readFileAsDataURL(file);
+      const photo = await compressImage(picked, photoMaxPixels(field, settings), settings.jpegQuality);
+      setPickedSize(dataUrlSize(picked));
+      onChange(photo, { original: photo });
+      setSession((current) => current + 1);
+    } catch (err) {
+      console.error('Error reading photo:', err);
+      alert('Failed to read photo');
+    }
+  };
+
+  const pickers = (
+    <div className="grid grid-cols-2 gap-2">
+      <label className="flex items-center justify-center gap-2 px-4 py-3 bg-green-50 text-green-600 rounded-lg hover:bg-green-100 transition-colors cursor-pointer">
+        <Camera className="w-5 h-5" />
+        {original ? 'Retake Photo' : 'Take Photo'}
+        <input type="file" accept="image/*" capture="environment" onChange={handleFile} className="hidden" />
+      </label>
+      <label className="flex items-center justify-center gap-2 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors cursor-pointer">
+        <ImageIcon className="w-5 h-5" />
+        Choose Image
+        <input type="file" accept={mediaAccept(field, 'image/*')} onChange={handleFile} className="hidden" />
+      </label>
+    </div>
+  );
+
+  if (!original || !size) return pickers;
+
+  return (
+    <div className="space-y-3">
+      <DrawingPad
+        key={`${original.length}-${session}`}
+        value={textValue(value) || original}
+        onChange={(annotated) => onChange(annotated || original, { original })}
+        width={size.width}
+        height={size.height}
+        colors={['#dc2626', '#f59e0b', '#2563eb', '#16a34a', '#111827']}
+        penWidth={Math.max(4, Math.round(size.width / 200))}
+        tools={['pen', 'arrow', 'text']}
+        mimeType="image/jpeg"
+        clearable={false}
+      />
+      <MediaSize value={textValue(value) || original} before={pickedSize} />
+      <button
+        type="button"
+        onClick={() => {
+          if (!confirm('Remove all annotations?')) return;
+          onChange(original, { original });
+          setSession((current) => current + 1);
+        }}
+        className="w-full flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-50"
+      >
+        <RotateCcw className="w-4 h-4" />
+        Start Over From the Original
+      </button>
+      {pickers}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import type { FormField } from '../../lib/xmlParser';
+
+// Captured and picked media are both kept as data URLs, so they are stored,
+// queued offline and synced the same way.
+export function readFileAsDataURL(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// The picker filter for an upload question: the form's mediatype when it has
+// one, otherwise the widget's default.
+export function mediaAccept(field: FormField, fallback: string): string {
+  return field.mediatype || fallback;
+}
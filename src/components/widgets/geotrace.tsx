@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Footprints, Undo2, Trash2, XCircle } from 'lucide-react';
+import {
+  parseODKGeometry,
+  formatODKGeometry,
+  openRing,
+  distanceBetween,
+  pathLength,
+  polygonArea,
+  formatDistance,
+  formatArea,
+  GeoVertex,
+} from '../../lib/geometry';
+import type { WidgetProps } from './registry';
+
+const vertexIcon = (selected: boolean) =>
+  L.divIcon({
+    className: '',
+    html: `<div class="w-4 h-4 rounded-full border-2 ${selected ? 'bg-blue-600 border-white' : 'bg-white border-blue-600'}"></div>`,
+    iconSize: [16, 16],
+    iconAnchor: [8, 8],
+  });
+
+// While walking, a new vertex is only added after moving this far (metres).
+const WALK_MIN_DISTANCE = 5;
+
+// Lines (geotrace) and polygons (geoshape) on a map. Vertices are added by
+// tapping the map or by walking with continuous GPS, and can be dragged to
+// move them or tapped to select and delete them.
+export function GeoTraceWidget({ field, value, onChange }: WidgetProps) {
+  const isShape = field.type.toLowerCase() === 'geoshape';
+  const vertices = useMemo(
+    () => (isShape ? openRing(parseODKGeometry(value)) : parseODKGeometry(value)),
+    [value, isShape]
+  );
+  const [walking, setWalking] = useState(false);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [error, setError] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const layerRef = useRef<L.LayerGroup | null>(null);
+  const watchRef = useRef<number | null>(null);
+
+  // Map and GPS callbacks are registered once, so they read the latest
+  // vertices and change handler through refs.
+  const verticesRef = useRef(vertices);
+  verticesRef.current = vertices;
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const update = useCallback((next: GeoVertex[]) => {
+    verticesRef.current = next;
+    onChangeRef.current(formatODKGeometry(next, isShape));
+  }, [isShape]);
+
+  const stopWalking = () => {
+    if (watchRef.current !== null) navigator.geolocation.clearWatch(watchRef.current);
+    watchRef.current = null;
+    setWalking(false);
+  };
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const map = L.map(containerRef.current).setView([0, 0], 2);
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+      maxZoom: 19,
+    }).addTo(map);
+    layerRef.current = L.layerGroup().addTo(map);
+    mapRef.current = map;
+
+    map.on('click', (e: L.LeafletMouseEvent) => {
+      if (watchRef.current !== null) return;
+      setSelected(null);
+      update([...verticesRef.current, { lat: e.latlng.lat, lng: e.latlng.lng, altitude: 0, accuracy: 0 }]);
+    });
+
+    if (verticesRef.current.length > 0) {
+      map.fitBounds(L.latLngBounds(verticesRef.current.map((vertex) => [vertex.lat, vertex.lng])), { padding: [30, 30], maxZoom: 18 });
+    } else {
+      navigator.geolocation?.getCurrentPosition(
+        (position) => map.setView([position.coords.latitude, position.coords.longitude], 17),
+        (err) => console.error('Could not centre the map on the current location:', err),
+        { enableHighAccuracy: true, timeout: 10000 }
+      );
+    }
+
+    return () => {
+      if (watchRef.current !== null) navigator.geolocation.clearWatch(watchRef.current);
+      map.remove();
+      mapRef.current = null;
+    };
+  }, [update]);
+
+  useEffect(() => {
+    const layer = layerRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+
+    const latLngs = vertices.map((vertex): L.LatLngTuple => [vertex.lat, vertex.lng]);
+    if (isShape && latLngs.length >= 3) {
+      L.polygon(latLngs, { color: '#2563eb', weight: 3 }).addTo(layer);
+    } else if (latLngs.length >= 2) {
+      L.polyline(latLngs, { color: '#2563eb', weight: 3 }).addTo(layer);
+    }
+
+    latLngs.forEach((latLng, index) => {
+      const marker = L.marker(latLng, { draggable: !walking, icon: vertexIcon(index === selected) }).addTo(layer);
+      marker.on('click', () => setSelected(index === selected ? null : index));
+      marker.on('dragend', () => {
+        const { lat, lng } = marker.getLatLng();
+        update(verticesRef.current.map((vertex, i) => (i === index ? { ...vertex, lat, lng, accuracy: 0 } : vertex)));
+      });
+    });
+  }, [vertices, isShape, selected, walking, update]);
+
+  const startWalking = () => {
+    if (!navigator.geolocation) {
+      setError('Geolocation is not supported by your browser');
+      return;
+    }
+
+    setError('');
+    setSelected(null);
+    setWalking(true);
+    watchRef.current = navigator.geolocation.watchPosition(
+      (position) => {
+        const vertex: GeoVertex = {
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          altitude: position.coords.altitude ?? 0,
+          accuracy: position.coords.accuracy,
+        };
+        const current = verticesRef.current;
+        const last = current[current.length - 1];
+        if (last && distanceBetween(last, vertex) < WALK_MIN_DISTANCE) return;
+
+        update([...current, vertex]);
+        mapRef.current?.panTo([vertex.lat, vertex.lng]);
+      },
+      (err) => {
+        setError('Failed to get location: ' + err.message);
+        stopWalking();
+      },
+      { enableHighAccuracy: true }
+    );
+  };
+
+  const length = pathLength(vertices, isShape);
+
+  return (
+    <div className="space-y-3">
+      <div ref={containerRef} className="relative z-0 h-72 rounded-lg border border-gray-300" />
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-700">
+        <span>
+          {vertices.length} point{vertices.length === 1 ? '' : 's'}
+          {vertices.length >= 2 && <> · {isShape ? 'Perimeter' : 'Length'} {formatDistance(length)}</>}
+          {isShape && vertices.length >= 3 && <> · Area {formatArea(polygonArea(vertices))}</>}
+        </span>
+        {!walking && <span className="text-xs text-gray-500">Tap the map to add points; drag a point to move it.</span>}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <button
+          type="button"
+          onClick={walking ? stopWalking : startWalking}
+          className={`flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors ${walking ? 'bg-red-50 text-red-600 hover:bg-red-100' : 'bg-blue-50 text-blue-600 hover:bg-blue-100'}`}
+        >
+          <Footprints className="w-4 h-4" />
+          {walking ? 'Stop Walking' : 'Walk to Record'}
+        </button>
+        <button
+          type="button"
+          onClick={() => update(vertices.slice(0, -1))}
+          disabled={walking || vertices.length === 0}
+          className="flex items-center justify-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Undo2 className="w-4 h-4" />
+          Undo Point
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            update(vertices.filter((_, index) => index !== selected));
+            setSelected(null);
+          }}
+          disabled={walking || selected === null}
+          className="flex items-center justify-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+        >
+          <XCircle className="w-4 h-4" />
+          Delete Selected
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            if (!confirm('Remove all points?')) return;
+            update([]);
+            setSelected(null);
+          }}
+          disabled={walking || vertices.length === 0}
+          className="flex items-center justify-center gap-2 px-3 py-2 border border-gray-300 text-red-600 rounded-lg text-sm hover:bg-red-50 disabled:opacity-50"
+        >
+          <Trash2 className="w-4 h-4" />
+          Clear
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
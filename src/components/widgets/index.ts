@@ -0,0 +1,60 @@
+import { registerWidget, registerFallbackWidget } from './registry';
+import {
+  TextWidget,
+  TextAreaWidget,
+  NumericTextWidget,
+  NumberWidget,
+  DateWidget,
+  MonthYearWidget,
+  YearWidget,
+  SelectOneWidget,
+  LikertWidget,
+  DropdownWidget,
+  SelectMultipleWidget,
+  MultiDropdownWidget,
+  RangeWidget,
+  RankWidget,
+  NoteWidget,
+  TriggerWidget,
+} from './basic';
+import { TimeWidget, DateTimeWidget } from './datetime';
+import { BarcodeWidget } from './barcode';
+import { GeoTraceWidget } from './geotrace';
+import { SignatureWidget, DrawWidget, AnnotateWidget } from './drawing';
+import { GPSWidget, CameraWidget, AudioWidget, VideoWidget, FileWidget } from './media';
+
+export { registerWidget, registerFallbackWidget, resolveWidget, WidgetContext, MediaQualityContext } from './registry';
+export type { WidgetProps, WidgetDefinition } from './registry';
+export { selectedChoices, toggleChoice } from './choices';
+
+// Built-in widgets. New question types register here (or from anywhere before
+// the form renders) instead of adding cases to the renderer.
+registerFallbackWidget(TextWidget);
+registerWidget({ types: ['text'], component: TextAreaWidget });
+registerWidget({ types: ['string'], appearance: 'multiline', component: TextAreaWidget });
+registerWidget({ types: ['string'], appearance: 'numbers', component: NumericTextWidget });
+registerWidget({ types: ['int', 'integer', 'decimal'], component: NumberWidget });
+registerWidget({ types: ['date'], component: DateWidget });
+registerWidget({ types: ['date'], appearance: 'month-year', component: MonthYearWidget });
+registerWidget({ types: ['date'], appearance: 'year', component: YearWidget });
+registerWidget({ types: ['time'], component: TimeWidget });
+registerWidget({ types: ['datetime'], component: DateTimeWidget });
+registerWidget({ types: ['range'], component: RangeWidget });
+registerWidget({ types: ['rank'], component: RankWidget });
+registerWidget({ types: ['select_one', 'select1'], component: SelectOneWidget });
+registerWidget({ types: ['select_one', 'select1'], appearance: 'likert', component: LikertWidget });
+registerWidget({ types: ['select_one', 'select1'], appearance: 'minimal', component: DropdownWidget });
+registerWidget({ types: ['select_multiple'], component: SelectMultipleWidget });
+registerWidget({ types: ['select_multiple'], appearance: 'minimal', component: MultiDropdownWidget });
+registerWidget({ types: ['note'], component: NoteWidget });
+registerWidget({ types: ['trigger'], component: TriggerWidget });
+registerWidget({ types: ['barcode'], component: BarcodeWidget });
+registerWidget({ types: ['geopoint'], component: GPSWidget });
+registerWidget({ types: ['geotrace', 'geoshape'], component: GeoTraceWidget });
+registerWidget({ types: ['binary'], component: FileWidget });
+registerWidget({ types: ['image'], component: CameraWidget });
+registerWidget({ types: ['binary', 'image'], appearance: 'signature', component: SignatureWidget });
+registerWidget({ types: ['binary', 'image'], appearance: 'draw', component: DrawWidget });
+registerWidget({ types: ['binary', 'image'], appearance: 'annotate', component: AnnotateWidget });
+registerWidget({ types: ['audio'], component: AudioWidget });
+registerWidget({ types: ['video'], component: VideoWidget });
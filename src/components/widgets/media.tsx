@@ -0,0 +1,344 @@
+import { useState, useContext } from 'react';
+import { MapPin, Camera, Mic, Video, FolderOpen, Paperclip } from 'lucide-react';
+import { MediaQualityContext, textValue, type WidgetProps } from './registry';
+import { readFileAsDataURL, mediaAccept } from './files';
+import { mediaQualitySettings, photoMaxPixels, compressImage, dataUrlSize, formatBytes, mediaBitrate } from '../../lib/mediaQuality';
+
+interface PickFileButtonProps {
+  accept: string;
+  label: string;
+  onPick: (dataUrl: string) => void | Promise<void>;
+}
+
+// Attaches media already on the device (gallery, recordings, document scans)
+// next to the live capture buttons.
+function PickFileButton({ accept, label, onPick }: PickFileButtonProps) {
+  const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await onPick(await readFileAsDataURL(file));
+    } catch (err) {
+      console.error('Error reading file:', err);
+      alert('Failed to read file');
+    }
+  };
+
+  return (
+    <label className="w-full flex items-center justify-center gap-2 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors cursor-pointer">
+      <FolderOpen className="w-5 h-5" />
+      {label}
+      <input type="file" accept={accept} onChange={handleChange} className="hidden" />
+    </label>
+  );
+}
+
+// Picked recordings can't be re-encoded here, so one well above the project's
+// bitrate is only attached once the user confirms. Container overhead puts
+// files a little above the nominal rate, hence the margin.
+async function confirmRecordingSize(dataUrl: string, bitsPerSecond: number | undefined): Promise<boolean> {
+  if (!bitsPerSecond) return true;
+  const bitrate = await mediaBitrate(dataUrl);
+  if (bitrate === null || bitrate <= bitsPerSecond * 1.25) return true;
+  return confirm(
+    `This file is ${formatBytes(dataUrlSize(dataUrl))} at about ${Math.round(bitrate / 1000)} kbps, ` +
+    `more than the ${Math.round(bitsPerSecond / 1000)} kbps this project's media quality allows. Attach it anyway?`
+  );
+}
+
+// The stored size of a media answer, and what it was before compression when
+// that is known.
+export function MediaSize({ value, before }: { value: string; before?: number }) {
+  const after = dataUrlSize(value);
+  return (
+    <p className="mt-2 text-xs text-gray-500">
+      {before && before !== after ? `${formatBytes(before)} → ${formatBytes(after)}` : formatBytes(after)}
+    </p>
+  );
+}
+
+export function GPSWidget({ value, onChange }: WidgetProps) {
+  const point = value && typeof value === 'object' && 'latitude' in value
+    ? (value as { latitude?: number; longitude?: number; accuracy?: number })
+    : null;
+  const [capturing, setCapturing] = useState(false);
+  const [error, setError] = useState('');
+
+  const captureLocation = () => {
+    setCapturing(true);
+    setError('');
+
+    if (!navigator.geolocation) {
+      setError('Geolocation is not supported by your browser');
+      setCapturing(false);
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        const location = {
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+        };
+        onChange(location);
+        setCapturing(false);
+      },
+      (err) => {
+        setError('Failed to get location: ' + err.message);
+        setCapturing(false);
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={captureLocation}
+        disabled={capturing}
+        className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors disabled:opacity-50"
+      >
+        <MapPin className="w-5 h-5" />
+        {capturing ? 'Getting location...' : point ? 'Update Location' : 'Capture Location'}
+      </button>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      {point && (
+        <div className="mt-3 p-3 bg-gray-50 rounded-lg text-sm">
+          <p className="text-gray-700">
+            <span className="font-medium">Latitude:</span> {point.latitude?.toFixed(6)}
+          </p>
+          <p className="text-gray-700">
+            <span className="font-medium">Longitude:</span> {point.longitude?.toFixed(6)}
+          </p>
+          <p className="text-gray-600 text-xs mt-1">
+            Accuracy: ±{point.accuracy?.toFixed(0)}m
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function CameraWidget({ field, value, onChange }: WidgetProps) {
+  const dataUrl = textValue(value);
+  const settings = mediaQualitySettings(useContext(MediaQualityContext));
+  const [capturing, setCapturing] = useState(false);
+  const [originalSize, setOriginalSize] = useState<number | undefined>();
+
+  const savePhoto = async (photo: string) => {
+    const compressed = await compressImage(photo, photoMaxPixels(field, settings), settings.jpegQuality);
+    setOriginalSize(dataUrlSize(photo));
+    onChange(compressed);
+  };
+
+  const capturePhoto = async () => {
+    try {
+      setCapturing(true);
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+
+      const video = document.createElement('video');
+      video.srcObject = stream;
+      video.play();
+
+      await new Promise(resolve => {
+        video.onloadedmetadata = resolve;
+      });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      canvas.getContext('2d')?.drawImage(video, 0, 0);
+
+      stream.getTracks().forEach(track => track.stop());
+
+      await savePhoto(canvas.toDataURL('image/jpeg', 0.92));
+      setCapturing(false);
+    } catch (err) {
+      console.error('Error capturing photo:', err);
+      alert('Failed to capture photo');
+      setCapturing(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          type="button"
+          onClick={capturePhoto}
+          disabled={capturing}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-green-50 text-green-600 rounded-lg hover:bg-green-100 transition-colors disabled:opacity-50"
+        >
+          <Camera className="w-5 h-5" />
+          {capturing ? 'Capturing...' : dataUrl ? 'Retake Photo' : 'Capture Photo'}
+        </button>
+        <PickFileButton accept={mediaAccept(field, 'image/*')} label="Choose Photo" onPick={savePhoto} />
+      </div>
+      {dataUrl && (
+        <div className="mt-3">
+          <img src={dataUrl} alt="Captured" className="w-full rounded-lg" />
+          <MediaSize value={dataUrl} before={originalSize} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function AudioWidget({ field, value, onChange }: WidgetProps) {
+  const dataUrl = textValue(value);
+  const { audioBitsPerSecond } = mediaQualitySettings(useContext(MediaQualityContext));
+  const [recording, setRecording] = useState(false);
+  const [mediaRecorder, setMediaRecorder] = useState<MediaRecorder | null>(null);
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream, { audioBitsPerSecond });
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (e) => chunks.push(e.data);
+      recorder.onstop = () => {
+        const blob = new Blob(chunks, { type: 'audio/webm' });
+        const reader = new FileReader();
+        reader.onloadend = () => {
+          onChange(reader.result);
+        };
+        reader.readAsDataURL(blob);
+        stream.getTracks().forEach(track => track.stop());
+      };
+
+      recorder.start();
+      setMediaRecorder(recorder);
+      setRecording(true);
+    } catch (err) {
+      console.error('Error starting recording:', err);
+      alert('Failed to start recording');
+    }
+  };
+
+  const stopRecording = () => {
+    if (mediaRecorder) {
+      mediaRecorder.stop();
+      setRecording(false);
+    }
+  };
+
+  const pickAudio = async (audio: string) => {
+    if (await confirmRecordingSize(audio, audioBitsPerSecond)) onChange(audio);
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          type="button"
+          onClick={recording ? stopRecording : startRecording}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-purple-50 text-purple-600 rounded-lg hover:bg-purple-100 transition-colors"
+        >
+          <Mic className="w-5 h-5" />
+          {recording ? 'Stop Recording' : dataUrl ? 'Re-record' : 'Start Recording'}
+        </button>
+        {!recording && <PickFileButton accept={mediaAccept(field, 'audio/*')} label="Choose Audio" onPick={pickAudio} />}
+      </div>
+      {dataUrl && (
+        <div className="mt-3">
+          <audio src={dataUrl} controls className="w-full" />
+          <MediaSize value={dataUrl} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function VideoWidget({ field, value, onChange }: WidgetProps) {
+  const dataUrl = textValue(value);
+  const { videoBitsPerSecond, audioBitsPerSecond } = mediaQualitySettings(useContext(MediaQualityContext));
+  const [recording, setRecording] = useState(false);
+  const [mediaRecorder, setMediaRecorder] = useState<MediaRecorder | null>(null);
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
+      const recorder = new MediaRecorder(stream, { videoBitsPerSecond, audioBitsPerSecond });
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (e) => chunks.push(e.data);
+      recorder.onstop = () => {
+        const blob = new Blob(chunks, { type: 'video/webm' });
+        const reader = new FileReader();
+        reader.onloadend = () => {
+          onChange(reader.result);
+        };
+        reader.readAsDataURL(blob);
+        stream.getTracks().forEach(track => track.stop());
+      };
+
+      recorder.start();
+      setMediaRecorder(recorder);
+      setRecording(true);
+    } catch (err) {
+      console.error('Error starting recording:', err);
+      alert('Failed to start recording');
+    }
+  };
+
+  const stopRecording = () => {
+    if (mediaRecorder) {
+      mediaRecorder.stop();
+      setRecording(false);
+    }
+  };
+
+  const pickVideo = async (video: string) => {
+    const bitsPerSecond = videoBitsPerSecond && audioBitsPerSecond ? videoBitsPerSecond + audioBitsPerSecond : undefined;
+    if (await confirmRecordingSize(video, bitsPerSecond)) onChange(video);
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          type="button"
+          onClick={recording ? stopRecording : startRecording}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors"
+        >
+          <Video className="w-5 h-5" />
+          {recording ? 'Stop Recording' : dataUrl ? 'Re-record' : 'Start Recording'}
+        </button>
+        {!recording && <PickFileButton accept={mediaAccept(field, 'video/*')} label="Choose Video" onPick={pickVideo} />}
+      </div>
+      {dataUrl && (
+        <div className="mt-3">
+          <video src={dataUrl} controls className="w-full rounded-lg" />
+          <MediaSize value={dataUrl} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Uploads that aren't photos, audio or video (XLSForm `file`), e.g. a PDF.
+export function FileWidget({ field, value, onChange }: WidgetProps) {
+  const dataUrl = textValue(value);
+  const mimeType = dataUrl.match(/^data:([^;,]+)/)?.[1];
+
+  return (
+    <div>
+      <PickFileButton accept={mediaAccept(field, '*/*')} label={dataUrl ? 'Replace File' : 'Choose File'} onPick={onChange} />
+      {dataUrl && (
+        <div className="mt-3 flex items-center justify-between gap-2 p-3 bg-gray-50 rounded-lg text-sm">
+          <a href={dataUrl} download={field.name} className="flex items-center gap-2 text-blue-600 hover:underline">
+            <Paperclip className="w-4 h-4" />
+            {mimeType || 'Attached file'}
+          </a>
+          <button type="button" onClick={() => onChange('')} className="text-red-600 hover:underline">
+            Remove
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
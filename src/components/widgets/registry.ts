@@ -0,0 +1,60 @@
+import { createContext, type ComponentType } from 'react';
+import { hasAppearance } from '../../lib/formLogic';
+import type { MediaQuality } from '../../lib/mediaQuality';
+import type { FormField } from '../../lib/xmlParser';
+
+export interface WidgetProps {
+  field: FormField;
+  value: unknown;
+  // Values kept next to the answer, by name (see companionKey in formLogic).
+  companions: Record<string, unknown>;
+  required: boolean;
+  onChange: (value: unknown, companions?: Record<string, unknown>) => void;
+}
+
+// Answers come from drafts, defaults and calculations as well as the widget
+// itself, so widgets narrow them; text inputs show anything other than text or
+// a number as empty.
+export function textValue(value: unknown): string {
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+}
+
+export interface WidgetDefinition {
+  // Lower-case question types this widget answers, e.g. ['int', 'integer'].
+  types: string[];
+  // When set, the widget is only used for questions with this appearance and
+  // takes precedence over widgets registered without one.
+  appearance?: string;
+  component: ComponentType<WidgetProps>;
+}
+
+// Provided by the one-question-per-screen pager; `advance` moves to the next
+// screen (used by the `quick` appearance). Absent when the whole form is shown.
+export const WidgetContext = createContext<{ advance?: () => void }>({});
+
+// The project's media quality, provided by the collect screen; photos and
+// recordings are compressed with it before they are saved or queued.
+export const MediaQualityContext = createContext<MediaQuality>('medium');
+
+const widgets: WidgetDefinition[] = [];
+let fallbackWidget: ComponentType<WidgetProps> | null = null;
+
+// Later registrations win over earlier ones for the same type and appearance,
+// so a widget can be replaced without touching the renderer.
+export function registerWidget(definition: WidgetDefinition) {
+  widgets.unshift(definition);
+}
+
+// Used for question types no widget is registered for.
+export function registerFallbackWidget(component: ComponentType<WidgetProps>) {
+  fallbackWidget = component;
+}
+
+export function resolveWidget(field: FormField): ComponentType<WidgetProps> | null {
+  const type = field.type.toLowerCase();
+  const candidates = widgets.filter((widget) => widget.types.includes(type));
+  const match =
+    candidates.find((widget) => widget.appearance && hasAppearance(field, widget.appearance)) ||
+    candidates.find((widget) => !widget.appearance);
+  return match?.component || fallbackWidget;
+}
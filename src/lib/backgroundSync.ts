@@ -1,6 +1,8 @@
 import { supabase } from './supabase';
 import { getPendingSubmissions, markSubmissionSynced, updateSubmissionSyncError, deleteSubmission } from './offlineStorage';
 import { syncSubmissionToTeable } from './teableSync';
+import { uploadSubmissionMedia } from './submissionMedia';
+import type { Json } from './database.types';
 
 export async function syncPendingSubmissions(): Promise<{
   success: number;
@@ -36,8 +38,10 @@ export async function syncPendingSubmissions(): Promise<{
           .upsert({
             id: submission.id,
             form_id: submission.formId,
+            form_version: submission.formVersion ?? null,
+            is_test: submission.isTest ?? false,
             user_id: submission.userId,
-            data: submission.data,
+            data: submission.data as Json,
             created_at: new Date(submission.createdAt).toISOString(),
           })
           .select()
@@ -47,6 +51,8 @@ export async function syncPendingSubmissions(): Promise<{
           throw error;
         }
 
+        await uploadSubmissionMedia(data.id, submission.formId, submission.attachments || []);
+
         syncSubmissionToTeable(data.id).catch(err => {
           console.error('Teable sync failed for submission:', data.id, err);
         });
@@ -40,6 +40,15 @@ export type Database = {
           question_name?: string
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "attachments_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       audit_logs: {
         Row: {
@@ -72,6 +81,15 @@ export type Database = {
           ip_address?: string | null
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "audit_logs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       companies: {
         Row: {
@@ -92,6 +110,52 @@ export type Database = {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
+      }
+      form_versions: {
+        Row: {
+          id: string
+          form_id: string
+          version: string
+          xml_content: string
+          media_files: Json
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          form_id: string
+          version: string
+          xml_content: string
+          media_files?: Json
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          form_id?: string
+          version?: string
+          xml_content?: string
+          media_files?: Json
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "form_versions_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "forms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "form_versions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       forms: {
         Row: {
@@ -101,7 +165,14 @@ export type Database = {
           description: string | null
           xml_content: string
           version: string
-          is_active: boolean
+          status: string
+          opens_at: string | null
+          closes_at: string | null
+          media_files: Json
+          xform_id: string | null
+          teable_table_id: string | null
+          teable_table_name: string | null
+          teable_repeat_tables: Json
           created_at: string
           updated_at: string
         }
@@ -112,7 +183,14 @@ export type Database = {
           description?: string | null
           xml_content: string
           version?: string
-          is_active?: boolean
+          status?: string
+          opens_at?: string | null
+          closes_at?: string | null
+          media_files?: Json
+          xform_id?: string | null
+          teable_table_id?: string | null
+          teable_table_name?: string | null
+          teable_repeat_tables?: Json
           created_at?: string
           updated_at?: string
         }
@@ -123,10 +201,26 @@ export type Database = {
           description?: string | null
           xml_content?: string
           version?: string
-          is_active?: boolean
+          status?: string
+          opens_at?: string | null
+          closes_at?: string | null
+          media_files?: Json
+          xform_id?: string | null
+          teable_table_id?: string | null
+          teable_table_name?: string | null
+          teable_repeat_tables?: Json
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "forms_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       projects: {
         Row: {
@@ -139,6 +233,8 @@ export type Database = {
           teable_api_token: string | null
           teable_table_id: string | null
           teable_table_name: string | null
+          teable_repeat_tables: Json
+          media_quality: string
           is_active: boolean
           created_at: string
           updated_at: string
@@ -153,6 +249,8 @@ export type Database = {
           teable_api_token?: string | null
           teable_table_id?: string | null
           teable_table_name?: string | null
+          teable_repeat_tables?: Json
+          media_quality?: string
           is_active?: boolean
           created_at?: string
           updated_at?: string
@@ -167,10 +265,21 @@ export type Database = {
           teable_api_token?: string | null
           teable_table_id?: string | null
           teable_table_name?: string | null
+          teable_repeat_tables?: Json
+          media_quality?: string
           is_active?: boolean
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "projects_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       submissions: {
         Row: {
@@ -178,6 +287,8 @@ export type Database = {
           form_id: string
           user_id: string | null
           data: Json
+          form_version: string | null
+          is_test: boolean
           status: string
           synced_to_teable: boolean
           teable_record_id: string | null
@@ -190,6 +301,8 @@ export type Database = {
           form_id: string
           user_id?: string | null
           data?: Json
+          form_version?: string | null
+          is_test?: boolean
           status?: string
           synced_to_teable?: boolean
           teable_record_id?: string | null
@@ -202,6 +315,8 @@ export type Database = {
           form_id?: string
           user_id?: string | null
           data?: Json
+          form_version?: string | null
+          is_test?: boolean
           status?: string
           synced_to_teable?: boolean
           teable_record_id?: string | null
@@ -209,6 +324,22 @@ export type Database = {
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "submissions_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "forms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "submissions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_project_access: {
         Row: {
@@ -229,6 +360,22 @@ export type Database = {
           project_id?: string
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "user_project_access_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_project_access_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       users: {
         Row: {
@@ -261,7 +408,28 @@ export type Database = {
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "users_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      [_ in never]: never
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
   }
 }
@@ -0,0 +1,278 @@
+import { convertXLSForm } from './xlsform';
+import type { SheetRow } from './xlsxReader';
+
+export type BuilderQuestionType =
+  | 'text'
+  | 'integer'
+  | 'decimal'
+  | 'date'
+  | 'select_one'
+  | 'select_multiple'
+  | 'geopoint'
+  | 'image'
+  | 'audio'
+  | 'video'
+  | 'note'
+  | 'acknowledge';
+
+export const QUESTION_TYPE_OPTIONS: Array<{ type: BuilderQuestionType; label: string }> = [
+  { type: 'text', label: 'Text' },
+  { type: 'integer', label: 'Integer' },
+  { type: 'decimal', label: 'Decimal' },
+  { type: 'date', label: 'Date' },
+  { type: 'select_one', label: 'Select One' },
+  { type: 'select_multiple', label: 'Select Multiple' },
+  { type: 'geopoint', label: 'Location' },
+  { type: 'image', label: 'Photo' },
+  { type: 'audio', label: 'Audio' },
+  { type: 'video', label: 'Video' },
+  { type: 'note', label: 'Note' },
+  { type: 'acknowledge', label: 'Acknowledge' },
+];
+
+export interface BuilderChoice {
+  name: string;
+  label: string;
+}
+
+// "answered" ignores `value`; "selected" is for select_multiple questions.
+export type SkipOperator = '=' | '!=' | '>' | '<' | 'selected' | 'answered';
+
+export interface SkipCondition {
+  // Name of an earlier question.
+  question: string;
+  operator: SkipOperator;
+  value: string;
+}
+
+export interface BuilderQuestion {
+  id: string;
+  kind: 'question';
+  type: BuilderQuestionType;
+  name: string;
+  label: string;
+  hint: string;
+  required: boolean;
+  condition: SkipCondition | null;
+  choices: BuilderChoice[];
+}
+
+export interface BuilderGroup {
+  id: string;
+  kind: 'group';
+  name: string;
+  label: string;
+  condition: SkipCondition | null;
+  children: BuilderItem[];
+}
+
+export type BuilderItem = BuilderQuestion | BuilderGroup;
+
+export interface BuilderForm {
+  title: string;
+  formId: string;
+  version: string;
+  items: BuilderItem[];
+}
+
+export interface BuilderError {
+  // The item the problem is on, or null for form-level problems.
+  itemId: string | null;
+  message: string;
+}
+
+let nextItemId = 0;
+
+function allItems(items: BuilderItem[]): BuilderItem[] {
+  return items.flatMap((item) => (item.kind === 'group' ? [item, ...allItems(item.children)] : [item]));
+}
+
+function uniqueName(items: BuilderItem[], base: string): string {
+  const names = new Set(allItems(items).map((item) => item.name));
+  let index = 1;
+  while (names.has(`${base}_${index}`)) index++;
+  return `${base}_${index}`;
+}
+
+export function createBuilderItem(type: BuilderQuestionType | 'group', items: BuilderItem[]): BuilderItem {
+  const id = `item_${Date.now()}_${nextItemId++}`;
+  if (type === 'group') {
+    return { id, kind: 'group', name: uniqueName(items, 'group'), label: 'New group', condition: null, children: [] };
+  }
+
+  const isSelect = type === 'select_one' || type === 'select_multiple';
+  return {
+    id,
+    kind: 'question',
+    type,
+    name: uniqueName(items, type === 'note' ? 'note' : 'question'),
+    label: QUESTION_TYPE_OPTIONS.find((option) => option.type === type)?.label || type,
+    hint: '',
+    required: false,
+    condition: null,
+    choices: isSelect
+      ? [
+          { name: 'option_1', label: 'Option 1' },
+          { name: 'option_2', label: 'Option 2' },
+        ]
+      : [],
+  };
+}
+
+export function findBuilderItem(items: BuilderItem[], id: string): BuilderItem | null {
+  return allItems(items).find((item) => item.id === id) || null;
+}
+
+export function updateBuilderItem(items: BuilderItem[], id: string, changes: Partial<BuilderItem>): BuilderItem[] {
+  return items.map((item) => {
+    if (item.id === id) return { ...item, ...changes } as BuilderItem;
+    if (item.kind === 'group') return { ...item, children: updateBuilderItem(item.children, id, changes) };
+    return item;
+  });
+}
+
+export function removeBuilderItem(items: BuilderItem[], id: string): BuilderItem[] {
+  return items
+    .filter((item) => item.id !== id)
+    .map((item) => (item.kind === 'group' ? { ...item, children: removeBuilderItem(item.children, id) } : item));
+}
+
+// Inserts `item` into the group `parentId` (or the top level when null) before
+// position `index`. Dropping a group into itself or its descendants is ignored.
+export function insertBuilderItem(
+  items: BuilderItem[],
+  item: BuilderItem,
+  parentId: string | null,
+  index: number
+): BuilderItem[] {
+  if (parentId !== null && item.kind === 'group' && (item.id === parentId || findBuilderItem(item.children, parentId))) {
+    return items;
+  }
+  if (parentId === null) {
+    return [...items.slice(0, index), item, ...items.slice(index)];
+  }
+  return items.map((current) => {
+    if (current.kind !== 'group') return current;
+    if (current.id === parentId) {
+      return { ...current, children: [...current.children.slice(0, index), item, ...current.children.slice(index)] };
+    }
+    return { ...current, children: insertBuilderItem(current.children, item, parentId, index) };
+  });
+}
+
+// Moves an item to a new place in the tree. `index` is relative to the
+// destination list before the item is taken out of its current one.
+export function moveBuilderItem(items: BuilderItem[], id: string, parentId: string | null, index: number): BuilderItem[] {
+  const item = findBuilderItem(items, id);
+  if (!item) return items;
+  if (parentId !== null && item.kind === 'group' && (item.id === parentId || findBuilderItem(item.children, parentId))) {
+    return items;
+  }
+
+  const siblings = parentId === null ? items : (findBuilderItem(items, parentId) as BuilderGroup).children;
+  const currentIndex = siblings.findIndex((sibling) => sibling.id === id);
+  const adjustedIndex = currentIndex >= 0 && currentIndex < index ? index - 1 : index;
+  return insertBuilderItem(removeBuilderItem(items, id), item, parentId, adjustedIndex);
+}
+
+// Questions that come before `id` in the form, which skip logic may refer to.
+export function questionsBefore(items: BuilderItem[], id: string): BuilderQuestion[] {
+  const ordered = allItems(items);
+  const position = ordered.findIndex((item) => item.id === id);
+  return ordered
+    .slice(0, position < 0 ? ordered.length : position)
+    .filter((item): item is BuilderQuestion => item.kind === 'question' && item.type !== 'note');
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, '')}'`;
+}
+
+// Skip conditions become XLSForm `relevant` expressions; `${name}` references
+// are resolved to node paths by the XLSForm converter.
+export function toRelevantExpression(condition: SkipCondition | null, items: BuilderItem[]): string {
+  if (!condition || !condition.question) return '';
+  const ref = `\${${condition.question}}`;
+  const question = allItems(items).find((item) => item.kind === 'question' && item.name === condition.question);
+  const numeric = question?.kind === 'question' && (question.type === 'integer' || question.type === 'decimal');
+  const value = numeric && condition.value.trim() !== '' ? condition.value.trim() : quote(condition.value);
+
+  switch (condition.operator) {
+    case 'answered':
+      return `${ref} != ''`;
+    case 'selected':
+      return `selected(${ref}, ${quote(condition.value)})`;
+    default:
+      return `${ref} ${condition.operator} ${value}`;
+  }
+}
+
+// Lays the form out as XLSForm survey/choices/settings sheets. `rowItems` maps
+// survey and choices rows back to the builder item they came from.
+export function builderToSheets(form: BuilderForm): {
+  sheets: Record<string, SheetRow[]>;
+  rowItems: Record<string, Record<number, string>>;
+} {
+  const survey: SheetRow[] = [{ rowNumber: 1, cells: ['type', 'name', 'label', 'hint', 'required', 'relevant'] }];
+  const choices: SheetRow[] = [{ rowNumber: 1, cells: ['list_name', 'name', 'label'] }];
+  const rowItems: Record<string, Record<number, string>> = { survey: {}, choices: {} };
+
+  const addRow = (item: BuilderItem, cells: string[]) => {
+    survey.push({ rowNumber: survey.length + 1, cells });
+    rowItems.survey[survey.length] = item.id;
+  };
+
+  const addItems = (items: BuilderItem[]) => {
+    items.forEach((item) => {
+      const relevant = toRelevantExpression(item.condition, form.items);
+      if (item.kind === 'group') {
+        addRow(item, ['begin_group', item.name, item.label, '', '', relevant]);
+        addItems(item.children);
+        addRow(item, ['end_group', item.name, '', '', '', '']);
+        return;
+      }
+
+      const isSelect = item.type === 'select_one' || item.type === 'select_multiple';
+      addRow(item, [
+        isSelect ? `${item.type} ${item.name}` : item.type,
+        item.name,
+        item.label,
+        item.hint,
+        item.required ? 'yes' : '',
+        relevant,
+      ]);
+      if (isSelect) {
+        item.choices.forEach((choice) => {
+          choices.push({ rowNumber: choices.length + 1, cells: [item.name, choice.name, choice.label] });
+          rowItems.choices[choices.length] = item.id;
+        });
+      }
+    });
+  };
+  addItems(form.items);
+
+  const settings: SheetRow[] = [
+    { rowNumber: 1, cells: ['form_title', 'form_id', 'version'] },
+    { rowNumber: 2, cells: [form.title, form.formId, form.version] },
+  ];
+
+  return { sheets: { survey, choices, settings }, rowItems };
+}
+
+// Builds the XForm for a builder form through the XLSForm converter, so both
+// ways of authoring a form produce the same XML. Conversion errors point back
+// at the item that caused them.
+export function buildXForm(form: BuilderForm): { xml: string | null; errors: BuilderError[] } {
+  if (form.items.length === 0) {
+    return { xml: null, errors: [{ itemId: null, message: 'Add at least one question' }] };
+  }
+
+  const { sheets, rowItems } = builderToSheets(form);
+  const conversion = convertXLSForm(sheets, form.formId || 'data');
+  const errors = conversion.errors.map((error) => ({
+    itemId: error.row !== null ? rowItems[error.sheet]?.[error.row] ?? null : null,
+    message: error.message,
+  }));
+
+  return { xml: conversion.xml, errors };
+}
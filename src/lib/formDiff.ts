@@ -0,0 +1,68 @@
+import type { FormField, FormNode, ParsedForm } from './xmlParser';
+
+export interface FieldDiff {
+  ref: string;
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+  before: FormField | null;
+  after: FormField | null;
+  // One entry per changed property, e.g. `type: int → decimal`.
+  details: string[];
+}
+
+function collectFields(nodes: FormNode[]): FormField[] {
+  return nodes.flatMap((node) => {
+    if (node.kind === 'group') return collectFields(node.children);
+    return [node, ...collectFields(node.children || [])];
+  });
+}
+
+function describeChanges(before: FormField, after: FormField): string[] {
+  const details: string[] = [];
+  const compare = (property: string, a: string | undefined, b: string | undefined) => {
+    if ((a || '') !== (b || '')) details.push(`${property}: ${a || '(none)'} → ${b || '(none)'}`);
+  };
+
+  compare('type', before.type, after.type);
+  compare('label', before.label, after.label);
+  compare('hint', before.hint, after.hint);
+  compare('required', before.bind.required ?? String(before.required), after.bind.required ?? String(after.required));
+  compare('relevant', before.bind.relevant, after.bind.relevant);
+  compare('constraint', before.bind.constraint, after.bind.constraint);
+  compare('calculate', before.bind.calculate, after.bind.calculate);
+  compare('readonly', before.bind.readonly, after.bind.readonly);
+  compare('itemset', before.itemset?.nodeset, after.itemset?.nodeset);
+
+  const beforeChoices = new Set((before.choices || []).map((choice) => choice.value));
+  const afterChoices = new Set((after.choices || []).map((choice) => choice.value));
+  const addedChoices = [...afterChoices].filter((value) => !beforeChoices.has(value));
+  const removedChoices = [...beforeChoices].filter((value) => !afterChoices.has(value));
+  if (addedChoices.length > 0) details.push(`choices added: ${addedChoices.join(', ')}`);
+  if (removedChoices.length > 0) details.push(`choices removed: ${removedChoices.join(', ')}`);
+
+  return details;
+}
+
+// Field-level comparison of two versions of a form, matched by node ref. The
+// result follows the newer version's order, with removed fields at the end.
+export function diffFormVersions(before: ParsedForm, after: ParsedForm): FieldDiff[] {
+  const beforeFields = new Map(collectFields(before.body).map((field) => [field.ref, field]));
+  const afterFields = collectFields(after.body);
+  const afterRefs = new Set(afterFields.map((field) => field.ref));
+
+  const diffs: FieldDiff[] = afterFields.map((field) => {
+    const previous = beforeFields.get(field.ref);
+    if (!previous) {
+      return { ref: field.ref, change: 'added', before: null, after: field, details: [] };
+    }
+    const details = describeChanges(previous, field);
+    return { ref: field.ref, change: details.length > 0 ? 'changed' : 'unchanged', before: previous, after: field, details };
+  });
+
+  beforeFields.forEach((field, ref) => {
+    if (!afterRefs.has(ref)) {
+      diffs.push({ ref, change: 'removed', before: field, after: null, details: [] });
+    }
+  });
+
+  return diffs;
+}
@@ -0,0 +1,37 @@
+export type FormStatus = 'draft' | 'published' | 'closed' | 'archived';
+
+export const FORM_STATUSES: Array<{ value: FormStatus; label: string }> = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'published', label: 'Published' },
+  { value: 'closed', label: 'Closed' },
+  { value: 'archived', label: 'Archived' },
+];
+
+export interface FormSchedule {
+  status: string;
+  opens_at: string | null;
+  closes_at: string | null;
+}
+
+export interface FormAvailability {
+  open: boolean;
+  // Why the form is not accepting submissions, shown to the user.
+  reason: string | null;
+}
+
+// Whether a form accepts submissions right now: it must be published and
+// inside its collection window. Works from the offline copy of the form too,
+// so the schedule is enforced without a connection.
+export function getFormAvailability(form: FormSchedule, now: Date = new Date()): FormAvailability {
+  if (form.status !== 'published') {
+    const label = FORM_STATUSES.find((s) => s.value === form.status)?.label.toLowerCase() || form.status;
+    return { open: false, reason: `This form is ${label} and is not accepting submissions.` };
+  }
+  if (form.opens_at && now < new Date(form.opens_at)) {
+    return { open: false, reason: `This form opens on ${new Date(form.opens_at).toLocaleString()}.` };
+  }
+  if (form.closes_at && now >= new Date(form.closes_at)) {
+    return { open: false, reason: `This form closed on ${new Date(form.closes_at).toLocaleString()}.` };
+  }
+  return { open: true, reason: null };
+}
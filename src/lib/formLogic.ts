@@ -0,0 +1,412 @@
+import { createNode, evaluateXPath, referencesNodes, toXPathBoolean, toXPathString, XPathContext, XPathFunction, XPathNode } from './xpath';
+import type { FieldBind, FormChoice, FormField, FormGroup, FormNode, InstanceNode, ParsedForm } from './xmlParser';
+
+export type FormValues = Record<string, unknown>;
+
+export interface NodeState {
+  relevant: boolean;
+  required: boolean;
+  readonly: boolean;
+  constraintError?: string;
+  // Current choices of an itemset select, filtered by its predicates.
+  choices?: FormChoice[];
+}
+
+export interface FormState {
+  values: FormValues;
+  // Keyed by instance key: the node path, with repeat instances written as
+  // `repeat[2]/child` (1-based, like XPath positions).
+  nodes: Record<string, NodeState>;
+}
+
+export interface ValidationIssue {
+  key: string;
+  label: string;
+  message: string;
+}
+
+interface InstanceEntry {
+  key: string;
+  node: FormNode;
+  element: XPathNode;
+  parentKey: string | null;
+  values: FormValues;
+}
+
+export function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+export function repeatInstanceKey(prefix: string, repeatPath: string, index: number): string {
+  return `${prefix}${repeatPath}[${index + 1}]`;
+}
+
+// String form of an answer as XPath sees it (ODK's text serialisation).
+export function toXPathValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object' && 'latitude' in value && 'longitude' in value) {
+    const point = value as { latitude: number; longitude: number; altitude?: number; accuracy?: number };
+    return `${point.latitude} ${point.longitude} ${point.altitude ?? 0} ${point.accuracy ?? 0}`;
+  }
+  if (typeof value === 'object') return '';
+  return String(value);
+}
+
+function ensureElement(base: XPathNode, path: string): XPathNode {
+  return path.split('/').reduce((parent, name) => {
+    return parent.children.find((child) => child.name === name) || createNode(name, parent);
+  }, base);
+}
+
+function cloneValues(values: FormValues): FormValues {
+  const copy: FormValues = { ...values };
+  Object.entries(copy).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      copy[key] = value.map((item) => (item && typeof item === 'object' ? cloneValues(item as FormValues) : item));
+    }
+  });
+  return copy;
+}
+
+// Builds the primary instance from the current answers, in the shape the
+// XForm's XPath expressions expect, and records one entry per body node.
+function buildInstance(form: ParsedForm, values: FormValues) {
+  const document = createNode('#document', null);
+  const rootName = form.fields[0]?.ref.split('/')[1] || 'data';
+  const root = createNode(rootName, document);
+  const entries: InstanceEntry[] = [];
+
+  const visit = (nodes: FormNode[], base: XPathNode, nodeValues: FormValues, prefix: string, parentKey: string | null) => {
+    nodes.forEach((node) => {
+      if (node.kind === 'group') {
+        if (node.path) {
+          const key = `${prefix}${node.path}`;
+          entries.push({ key, node, element: ensureElement(base, node.path), parentKey, values: nodeValues });
+          visit(node.children, base, nodeValues, prefix, key);
+        } else {
+          visit(node.children, base, nodeValues, prefix, parentKey);
+        }
+        return;
+      }
+
+      if (node.type === 'repeat') {
+        const segments = node.path.split('/');
+        const container = segments.length > 1 ? ensureElement(base, segments.slice(0, -1).join('/')) : base;
+        const instances = Array.isArray(nodeValues[node.path]) ? (nodeValues[node.path] as FormValues[]) : [];
+
+        entries.push({ key: `${prefix}${node.path}`, node, element: container, parentKey, values: nodeValues });
+        instances.forEach((instanceValues, index) => {
+          const element = createNode(node.name, container);
+          const key = repeatInstanceKey(prefix, node.path, index);
+          visit(node.children || [], element, instanceValues, `${key}/`, `${prefix}${node.path}`);
+        });
+        return;
+      }
+
+      const element = ensureElement(base, node.path);
+      element.value = toXPathValue(nodeValues[node.path]);
+      entries.push({ key: `${prefix}${node.path}`, node, element, parentKey, values: nodeValues });
+    });
+  };
+
+  visit(form.body, root, values, '', null);
+  return { document, entries };
+}
+
+const secondaryInstanceCache = new WeakMap<Record<string, InstanceNode>, Record<string, XPathNode>>();
+
+// Secondary instances don't change while filling in a form, so their XPath
+// trees are built once per form.
+function buildSecondaryInstances(form: ParsedForm): Record<string, XPathNode> {
+  const cached = secondaryInstanceCache.get(form.secondaryInstances);
+  if (cached) return cached;
+
+  const append = (source: InstanceNode, parent: XPathNode) => {
+    const node = createNode(source.name, parent, source.children.length === 0 ? source.value : '');
+    node.attributes = { ...source.attributes };
+    source.children.forEach((child) => append(child, node));
+  };
+
+  const instances: Record<string, XPathNode> = {};
+  Object.entries(form.secondaryInstances).forEach(([id, root]) => {
+    const document = createNode('#document', null);
+    append(root, document);
+    instances[id] = document;
+  });
+
+  secondaryInstanceCache.set(form.secondaryInstances, instances);
+  return instances;
+}
+
+function choiceName(form: ParsedForm): XPathFunction {
+  return (args) => {
+    const value = toXPathString(args[0]).trim();
+    const field = findField(form.body, toXPathString(args[1]).trim());
+    return field?.choices?.find((choice) => choice.value === value)?.label ?? '';
+  };
+}
+
+function findField(nodes: FormNode[], ref: string): FormField | undefined {
+  for (const node of nodes) {
+    if (node.kind === 'field' && node.ref === ref) return node;
+    const children = node.kind === 'group' ? node.children : node.children || [];
+    const found = findField(children, ref);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+export function evaluateForm(form: ParsedForm, values: FormValues): FormState {
+  const result = cloneValues(values);
+  const { document, entries } = buildInstance(form, result);
+  const nodes: Record<string, NodeState> = {};
+  const instances = buildSecondaryInstances(form);
+  const itemsetChoices: Record<string, FormChoice[]> = {};
+  const texts = form.translations[form.language ?? ''] || {};
+
+  const contextFor = (element: XPathNode): XPathContext => ({
+    node: element,
+    current: element,
+    position: 1,
+    size: 1,
+    root: document,
+    instances,
+    functions: { 'jr:choice-name': choiceName(form) },
+  });
+
+  // Itemset choices are filtered before calculations run, so answers that
+  // are no longer among the choices are cleared first, as ODK does.
+  entries.forEach((entry) => {
+    if (entry.node.kind !== 'field' || !entry.node.itemset) return;
+    const field = entry.node;
+    const itemset = field.itemset!;
+
+    try {
+      const items = evaluateXPath(itemset.nodeset, contextFor(entry.element));
+      if (!Array.isArray(items)) return;
+
+      const itextChild = itemset.label.match(/^\s*jr:itext\(\s*([\w.-]+)\s*\)\s*$/)?.[1];
+      const choices = items.map((item, index) => {
+        const itemContext: XPathContext = { ...contextFor(entry.element), node: item, position: index + 1, size: items.length };
+        const value = toXPathString(evaluateXPath(itemset.value, itemContext));
+        const labelRef = itextChild ? toXPathString(evaluateXPath(itextChild, itemContext)) : undefined;
+        const label = labelRef ? texts[labelRef] : toXPathString(evaluateXPath(itemset.label, itemContext));
+        return { value, label: label || value, labelRef };
+      });
+      itemsetChoices[entry.key] = choices;
+
+      const current = entry.values[field.path];
+      if (typeof current !== 'string' || current === '') return;
+      const allowed = new Set(choices.map((choice) => choice.value));
+      const kept = current.split(' ').filter((value) => allowed.has(value)).join(' ');
+      const next = field.type === 'select_multiple' || field.type === 'rank' ? kept : allowed.has(current) ? current : '';
+      if (next !== current) {
+        entry.values[field.path] = next;
+        entry.element.value = next;
+      }
+    } catch (err) {
+      console.warn(`Could not evaluate choices for ${field.path}:`, err);
+    }
+  });
+
+  const evaluateBind = (expression: string, element: XPathNode, fallback: boolean, label: string): boolean => {
+    try {
+      return toXPathBoolean(evaluateXPath(expression, contextFor(element)));
+    } catch (err) {
+      console.warn(`Could not evaluate "${expression}" for ${label}:`, err);
+      return fallback;
+    }
+  };
+
+  // Calculations run in document order, so a calculate can use the result of
+  // an earlier one. Expressions that read no nodes (uuid(), now()) run once.
+  entries.forEach((entry) => {
+    if (entry.node.kind !== 'field' || !entry.node.bind.calculate) return;
+    const field = entry.node;
+    const expression = field.bind.calculate!;
+    const current = entry.values[field.path];
+
+    try {
+      if (!isEmptyValue(current) && !referencesNodes(expression)) return;
+      const computed = toXPathString(evaluateXPath(expression, contextFor(entry.element)));
+      const numeric = ['int', 'integer', 'decimal'].includes(field.type) && computed !== '' && !isNaN(Number(computed));
+      entry.values[field.path] = numeric ? Number(computed) : computed;
+      entry.element.value = computed;
+    } catch (err) {
+      console.warn(`Could not calculate ${field.path}:`, err);
+    }
+  });
+
+  entries.forEach((entry) => {
+    const bind: FieldBind = entry.node.bind;
+    const label = entry.key;
+    const parent = entry.parentKey ? nodes[entry.parentKey] : undefined;
+
+    const relevant = (parent?.relevant ?? true) && (bind.relevant ? evaluateBind(bind.relevant, entry.element, true, label) : true);
+    const staticRequired = entry.node.kind === 'field' && entry.node.required;
+    const required = relevant && (bind.required ? evaluateBind(bind.required, entry.element, staticRequired, label) : staticRequired);
+    const readonly = (parent?.readonly ?? false) || (bind.readonly ? evaluateBind(bind.readonly, entry.element, false, label) : false);
+
+    const state: NodeState = { relevant, required, readonly };
+    if (itemsetChoices[entry.key]) {
+      state.choices = itemsetChoices[entry.key];
+    }
+
+    if (relevant && bind.constraint && entry.node.kind === 'field' && !isEmptyValue(entry.values[entry.node.path])) {
+      if (!evaluateBind(bind.constraint, entry.element, true, label)) {
+        state.constraintError = bind.constraintMsg || 'Sorry, this response is invalid.';
+      }
+    }
+
+    nodes[entry.key] = state;
+  });
+
+  return { values: result, nodes };
+}
+
+// Walks every rendered question (repeat instances included) that is currently
+// relevant and reports unanswered required ones and failed constraints. Pass
+// `nodes` to check only part of the form, such as a single page.
+export function getValidationIssues(form: ParsedForm, state: FormState, nodes: FormNode[] = form.body): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  const visit = (nodes: FormNode[], values: FormValues, prefix: string) => {
+    nodes.forEach((node) => {
+      if (node.kind === 'group') {
+        const groupState = node.path ? state.nodes[`${prefix}${node.path}`] : undefined;
+        if (groupState && !groupState.relevant) return;
+        visit(node.children, values, prefix);
+        return;
+      }
+
+      const key = `${prefix}${node.path}`;
+      const nodeState = state.nodes[key];
+      if (!nodeState?.relevant) return;
+
+      if (node.type === 'repeat') {
+        const instances = Array.isArray(values[node.path]) ? (values[node.path] as FormValues[]) : [];
+        instances.forEach((instanceValues, index) => {
+          visit(node.children || [], instanceValues, `${repeatInstanceKey(prefix, node.path, index)}/`);
+        });
+        return;
+      }
+
+      if (node.hidden) return;
+
+      if (nodeState.required && isEmptyValue(values[node.path])) {
+        issues.push({ key, label: node.label, message: node.bind.requiredMsg || 'This field is required' });
+      } else if (nodeState.constraintError) {
+        issues.push({ key, label: node.label, message: nodeState.constraintError });
+      }
+    });
+  };
+
+  visit(nodes, state.values, '');
+  return issues;
+}
+
+// Companion values: extra values a question keeps next to its answer, such as
+// the original of an annotated photo, stored as `<path>#<name>`. `#` can't
+// appear in node names, so they never clash with answers.
+export function companionKey(path: string, name: string): string {
+  return `${path}#${name}`;
+}
+
+export function companionValues(values: FormValues, path: string): Record<string, unknown> {
+  const prefix = `${path}#`;
+  return Object.fromEntries(
+    Object.entries(values)
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, value]) => [key.slice(prefix.length), value])
+  );
+}
+
+// Sets an answer and its companion values in one update.
+export function setAnswer(values: FormValues, path: string, value: unknown, companions?: Record<string, unknown>): FormValues {
+  const next: FormValues = { ...values, [path]: value };
+  Object.entries(companions || {}).forEach(([name, companion]) => {
+    next[companionKey(path, name)] = companion;
+  });
+  return next;
+}
+
+// Answers to non-relevant questions are not submitted, as in ODK.
+export function getRelevantValues(form: ParsedForm, state: FormState): FormValues {
+  const collect = (nodes: FormNode[], values: FormValues, prefix: string, target: FormValues) => {
+    nodes.forEach((node) => {
+      if (node.kind === 'group') {
+        const groupState = node.path ? state.nodes[`${prefix}${node.path}`] : undefined;
+        if (groupState && !groupState.relevant) return;
+        collect(node.children, values, prefix, target);
+        return;
+      }
+
+      const nodeState = state.nodes[`${prefix}${node.path}`];
+      if (!nodeState?.relevant || values[node.path] === undefined) return;
+
+      if (node.type === 'repeat') {
+        const instances = Array.isArray(values[node.path]) ? (values[node.path] as FormValues[]) : [];
+        target[node.path] = instances.map((instanceValues, index) => {
+          const instanceTarget: FormValues = {};
+          collect(node.children || [], instanceValues, `${repeatInstanceKey(prefix, node.path, index)}/`, instanceTarget);
+          return instanceTarget;
+        });
+        return;
+      }
+
+      target[node.path] = values[node.path];
+      Object.entries(companionValues(values, node.path)).forEach(([name, companion]) => {
+        target[companionKey(node.path, name)] = companion;
+      });
+    });
+  };
+
+  const result: FormValues = {};
+  collect(form.body, state.values, '', result);
+  return result;
+}
+
+export interface FormPage {
+  // What the page shows: a single question, a repeat, or a field-list group
+  // with all of its questions.
+  node: FormNode;
+  // Enclosing groups that were split into pages, outermost first.
+  groups: FormGroup[];
+}
+
+export function hasAppearance(node: FormNode, appearance: string): boolean {
+  return (node.appearance || '').split(/\s+/).includes(appearance);
+}
+
+function hasVisibleQuestion(node: FormNode): boolean {
+  return node.kind === 'group' ? node.children.some(hasVisibleQuestion) : !node.hidden;
+}
+
+// Splits a form into screens the way ODK Collect does: one question per
+// screen, except groups with the `field-list` appearance, which are shown
+// together. Repeats stay on one screen with their instances.
+export function buildPages(form: ParsedForm): FormPage[] {
+  const pages: FormPage[] = [];
+
+  const visit = (nodes: FormNode[], groups: FormGroup[]) => {
+    nodes.forEach((node) => {
+      if (node.kind === 'group' && !hasAppearance(node, 'field-list')) {
+        visit(node.children, [...groups, node]);
+      } else if (hasVisibleQuestion(node)) {
+        pages.push({ node, groups });
+      }
+    });
+  };
+
+  visit(form.body, []);
+  return pages;
+}
+
+// A page is skipped when its question or any of its enclosing groups is not
+// relevant.
+export function isPageRelevant(page: FormPage, state: FormState): boolean {
+  return [...page.groups, page.node].every((node) => {
+    const nodeState = node.path ? state.nodes[node.path] : undefined;
+    return !nodeState || nodeState.relevant;
+  });
+}
@@ -0,0 +1,78 @@
+import { supabase } from './supabase';
+
+export const FORM_MEDIA_BUCKET = 'form-media';
+
+export interface FormMediaFile {
+  name: string;
+  path: string;
+  type: string;
+  size: number;
+}
+
+export function readFormMediaFiles(value: unknown): FormMediaFile[] {
+  return Array.isArray(value) ? (value as FormMediaFile[]) : [];
+}
+
+// Each version's files go in their own folder, so publishing a new version
+// never overwrites files that older versions and downloaded copies still use.
+export async function uploadFormMedia(
+  projectId: string,
+  formId: string,
+  version: string,
+  files: File[]
+): Promise<FormMediaFile[]> {
+  const uploaded: FormMediaFile[] = [];
+  const folder = `${projectId}/${formId}/${version.replace(/[^\w.-]/g, '_') || 'default'}`;
+
+  for (const file of files) {
+    const path = `${folder}/${file.name}`;
+    const { error } = await supabase.storage
+      .from(FORM_MEDIA_BUCKET)
+      .upload(path, file, { upsert: true, contentType: file.type || undefined });
+
+    if (error) throw new Error(`Failed to upload ${file.name}: ${error.message}`);
+
+    uploaded.push({ name: file.name, path, type: file.type, size: file.size });
+  }
+
+  return uploaded;
+}
+
+export async function downloadFormMedia(files: FormMediaFile[]): Promise<Record<string, Blob>> {
+  const media: Record<string, Blob> = {};
+
+  for (const file of files) {
+    const { data, error } = await supabase.storage.from(FORM_MEDIA_BUCKET).download(file.path);
+    if (error || !data) {
+      throw new Error(`Failed to download ${file.name}: ${error?.message || 'empty response'}`);
+    }
+    media[file.name] = data;
+  }
+
+  return media;
+}
+
+export async function deleteFormMedia(files: FormMediaFile[]): Promise<void> {
+  const paths = [...new Set(files.map((file) => file.path))];
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage
+    .from(FORM_MEDIA_BUCKET)
+    .remove(paths);
+
+  if (error) throw error;
+}
+
+// Only CSV and XML files can back secondary instances; other media (images,
+// audio) are kept as blobs.
+export async function readInstanceMedia(media: Record<string, Blob>): Promise<Record<string, string>> {
+  const texts: Record<string, string> = {};
+
+  for (const [name, blob] of Object.entries(media)) {
+    if (/\.(csv|xml)$/i.test(name)) {
+      texts[name] = await blob.text();
+    }
+  }
+
+  return texts;
+}
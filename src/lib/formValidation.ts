@@ -0,0 +1,173 @@
+import { XMLValidator } from 'fast-xml-parser';
+import { parseXForm, flattenFields, FormField, FormNode, ParsedForm } from './xmlParser';
+import { parseXPath } from './xpath';
+
+export interface FormValidationIssue {
+  severity: 'error' | 'warning';
+  // Where the problem is: a node ref, or a sheet row for XLSForm conversions.
+  location: string | null;
+  message: string;
+}
+
+export interface FormValidationResult {
+  parsed: ParsedForm | null;
+  issues: FormValidationIssue[];
+}
+
+// Column names the Teable tables created for a form already use.
+const TEABLE_SYSTEM_COLUMNS = ['Submission ID', 'Submitted By', 'Submitted At', 'Repeat Index', 'Parent'];
+
+// Teable trims field names and rejects empty ones, refers to fields in
+// formulas as {name}, and caps names at 255 characters.
+const TEABLE_COLUMN_NAME_MAX_LENGTH = 255;
+
+function teableColumnNameProblem(name: string): string | null {
+  if (name.trim() === '') return 'has no name';
+  if (name !== name.trim()) return 'starts or ends with whitespace';
+  if (/[{}]/.test(name) || Array.from(name).some((char) => char.charCodeAt(0) < 32)) {
+    return 'contains a brace or a control character';
+  }
+  if (name.length > TEABLE_COLUMN_NAME_MAX_LENGTH) {
+    return `is longer than ${TEABLE_COLUMN_NAME_MAX_LENGTH} characters`;
+  }
+  return null;
+}
+
+const INSTANCE_CALL = /instance\(\s*['"]([^'"]*)['"]\s*\)/g;
+
+function referencedInstances(expression: string): string[] {
+  return Array.from(expression.matchAll(INSTANCE_CALL), (match) => match[1]);
+}
+
+function allFields(nodes: FormNode[]): FormField[] {
+  return nodes.flatMap((node) => {
+    if (node.kind === 'group') return allFields(node.children);
+    return [node, ...allFields(node.children || [])];
+  });
+}
+
+// Checks a form before it is saved. Errors mean the form can't be filled in or
+// synced correctly; warnings are worth a look but don't block the upload.
+export function validateXForm(xmlContent: string, mediaTexts: Record<string, string> = {}): FormValidationResult {
+  const issues: FormValidationIssue[] = [];
+  const error = (location: string | null, message: string) => issues.push({ severity: 'error', location, message });
+  const warning = (location: string | null, message: string) => issues.push({ severity: 'warning', location, message });
+
+  const wellFormed = XMLValidator.validate(xmlContent);
+  if (wellFormed !== true) {
+    error(`line ${wellFormed.err.line}`, `The XML is not well-formed: ${wellFormed.err.msg}`);
+    return { parsed: null, issues };
+  }
+
+  let parsed: ParsedForm;
+  try {
+    parsed = parseXForm(xmlContent, mediaTexts);
+  } catch (err) {
+    error(null, `The form could not be read: ${(err as Error).message}`);
+    return { parsed: null, issues };
+  }
+
+  const fields = allFields(parsed.body);
+  if (fields.filter((field) => !field.hidden).length === 0) {
+    error(null, 'No questions found in the form body');
+  }
+
+  const nodeRefs = new Set(parsed.model.nodeRefs);
+  const instanceIds = new Set(parsed.model.instanceIds);
+
+  const checkExpression = (location: string, attribute: string, expression: string) => {
+    try {
+      parseXPath(expression);
+    } catch (err) {
+      error(location, `Invalid ${attribute} expression "${expression}": ${(err as Error).message}`);
+    }
+    referencedInstances(expression).forEach((id) => {
+      if (!instanceIds.has(id)) {
+        error(location, `${attribute} refers to instance('${id}'), which is not declared`);
+      }
+    });
+  };
+
+  parsed.model.binds.forEach(({ ref, bind }) => {
+    if (!nodeRefs.has(ref)) {
+      error(ref, 'Bind does not match any node in the primary instance');
+    }
+    Object.entries(bind).forEach(([attribute, expression]) => {
+      if (attribute !== 'requiredMsg' && attribute !== 'constraintMsg' && expression) {
+        checkExpression(ref, attribute, expression);
+      }
+    });
+  });
+
+  parsed.externalInstanceFiles
+    .filter((fileName) => mediaTexts[fileName] === undefined)
+    .forEach((fileName) => error(null, `Media file "${fileName}" is required by an external instance but was not attached`));
+
+  fields.forEach((field) => {
+    if (!nodeRefs.has(field.ref)) {
+      error(field.ref, 'Question does not match any node in the primary instance');
+    }
+    if (field.hidden) return;
+
+    if (field.label === field.name && !field.labelRef && field.type !== 'repeat') {
+      warning(field.ref, 'Question has no label');
+    }
+
+    if (field.itemset) {
+      checkExpression(field.ref, 'itemset nodeset', field.itemset.nodeset);
+      checkExpression(field.ref, 'itemset value', field.itemset.value);
+      if (!/^\s*jr:itext\(/.test(field.itemset.label)) {
+        checkExpression(field.ref, 'itemset label', field.itemset.label);
+      }
+    }
+
+    if (field.choices) {
+      if (field.choices.length === 0 && !field.itemset) {
+        warning(field.ref, 'Select has no choices');
+      }
+
+      const seen = new Set<string>();
+      field.choices.forEach((choice) => {
+        if (!seen.has(choice.value)) {
+          seen.add(choice.value);
+        } else if (field.itemset) {
+          // Cascading lists can legitimately repeat names across filters.
+          warning(field.ref, `Choice name "${choice.value}" appears more than once in the itemset`);
+        } else {
+          error(field.ref, `Duplicate choice name "${choice.value}"`);
+        }
+      });
+    }
+  });
+
+  // Each Teable table (the form's, and one per repeat) gets a column per
+  // field path; Teable field names must be legal and unique regardless of case.
+  const checkColumns = (tableFields: FormField[], tableName: string) => {
+    const used = new Map(TEABLE_SYSTEM_COLUMNS.map((name) => [name.toLowerCase(), `the "${name}" system column`]));
+
+    tableFields.forEach((field) => {
+      if (field.type === 'repeat') {
+        checkColumns(flattenFields(field.children || []), `the "${field.path}" repeat table`);
+        return;
+      }
+      if (field.type === 'note') return;
+
+      const problem = teableColumnNameProblem(field.path);
+      if (problem) {
+        error(field.ref, `Teable column "${field.path}" in ${tableName} ${problem}`);
+        return;
+      }
+
+      const key = field.path.toLowerCase();
+      const clash = used.get(key);
+      if (clash) {
+        error(field.ref, `Teable column "${field.path}" in ${tableName} clashes with ${clash}`);
+      } else {
+        used.set(key, `the column of another question ("${field.path}")`);
+      }
+    });
+  };
+  checkColumns(parsed.fields, 'the form table');
+
+  return { parsed, issues };
+}
@@ -0,0 +1,115 @@
+// Geotrace and geoshape answers are stored the ODK way: vertices separated by
+// semicolons, each "lat lon altitude accuracy", e.g.
+// "-1.95 30.06 1500 5;-1.96 30.07 1502 4". A geoshape repeats its first vertex
+// at the end to close the ring.
+
+export interface GeoVertex {
+  lat: number;
+  lng: number;
+  altitude: number;
+  accuracy: number;
+}
+
+export type GeoJSONGeometry =
+  | { type: 'Point'; coordinates: number[] }
+  | { type: 'LineString'; coordinates: number[][] }
+  | { type: 'Polygon'; coordinates: number[][][] };
+
+const EARTH_RADIUS = 6378137;
+
+export function parseODKGeometry(value: unknown): GeoVertex[] {
+  if (typeof value !== 'string') return [];
+
+  return value
+    .split(';')
+    .map((vertex) => vertex.trim().split(/\s+/).map(Number))
+    .filter((parts) => parts.length >= 2 && !isNaN(parts[0]) && !isNaN(parts[1]))
+    .map(([lat, lng, altitude = 0, accuracy = 0]) => ({
+      lat,
+      lng,
+      altitude: isNaN(altitude) ? 0 : altitude,
+      accuracy: isNaN(accuracy) ? 0 : accuracy,
+    }));
+}
+
+// For shapes, pass the open ring: the closing vertex is added here.
+export function formatODKGeometry(vertices: GeoVertex[], closed = false): string {
+  if (vertices.length === 0) return '';
+  const ring = closed && vertices.length > 2 ? [...vertices, vertices[0]] : vertices;
+  return ring.map((vertex) => `${vertex.lat} ${vertex.lng} ${vertex.altitude} ${vertex.accuracy}`).join(';');
+}
+
+// Drops the repeated closing vertex of a stored geoshape.
+export function openRing(vertices: GeoVertex[]): GeoVertex[] {
+  const first = vertices[0];
+  const last = vertices[vertices.length - 1];
+  return vertices.length > 1 && first.lat === last.lat && first.lng === last.lng ? vertices.slice(0, -1) : vertices;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance in metres.
+export function distanceBetween(a: GeoVertex, b: GeoVertex): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.sqrt(h));
+}
+
+export function pathLength(vertices: GeoVertex[], closed = false): number {
+  const ring = closed && vertices.length > 2 ? [...vertices, vertices[0]] : vertices;
+  return ring.slice(1).reduce((total, vertex, index) => total + distanceBetween(ring[index], vertex), 0);
+}
+
+// Area in square metres of the polygon on a spherical earth.
+export function polygonArea(vertices: GeoVertex[]): number {
+  if (vertices.length < 3) return 0;
+
+  let total = 0;
+  vertices.forEach((vertex, index) => {
+    const next = vertices[(index + 1) % vertices.length];
+    total += toRadians(next.lng - vertex.lng) * (2 + Math.sin(toRadians(vertex.lat)) + Math.sin(toRadians(next.lat)));
+  });
+  return Math.abs((total * EARTH_RADIUS * EARTH_RADIUS) / 2);
+}
+
+export function formatDistance(metres: number): string {
+  return metres >= 1000 ? `${(metres / 1000).toFixed(2)} km` : `${metres.toFixed(0)} m`;
+}
+
+export function formatArea(squareMetres: number): string {
+  return squareMetres >= 10000 ? `${(squareMetres / 10000).toFixed(2)} ha` : `${squareMetres.toFixed(0)} m²`;
+}
+
+// GeoJSON uses [longitude, latitude] order.
+export function odkGeometryToGeoJSON(value: unknown, type: string): GeoJSONGeometry | null {
+  const vertices = parseODKGeometry(value);
+  const coordinates = vertices.map((vertex) => [vertex.lng, vertex.lat]);
+
+  if (type === 'geoshape') {
+    const ring = openRing(vertices).map((vertex) => [vertex.lng, vertex.lat]);
+    return ring.length >= 3 ? { type: 'Polygon', coordinates: [[...ring, ring[0]]] } : null;
+  }
+  if (type === 'geotrace') {
+    return coordinates.length >= 2 ? { type: 'LineString', coordinates } : null;
+  }
+  return coordinates.length === 1 ? { type: 'Point', coordinates: coordinates[0] } : null;
+}
+
+// Reads a GeoJSON geometry (or a Feature wrapping one) from a Teable value,
+// which may still be the JSON text.
+export function extractGeoJSON(value: unknown): GeoJSONGeometry | null {
+  let parsed = value as { type: string; coordinates?: unknown; geometry?: unknown } | null;
+  if (typeof value === 'string') {
+    if (!value.trim().startsWith('{')) return null;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  if (parsed?.type === 'Feature') parsed = parsed.geometry as typeof parsed;
+  if (!parsed || !Array.isArray(parsed.coordinates)) return null;
+  return ['Point', 'LineString', 'Polygon'].includes(parsed.type) ? (parsed as GeoJSONGeometry) : null;
+}
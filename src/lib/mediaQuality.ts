@@ -0,0 +1,95 @@
+import type { FormField } from './xmlParser';
+
+export type MediaQuality = 'low' | 'medium' | 'high' | 'original';
+
+export const MEDIA_QUALITIES: Array<{ value: MediaQuality; label: string }> = [
+  { value: 'low', label: 'Low (slow connections)' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+  { value: 'original', label: 'Original size' },
+];
+
+export interface MediaQualitySettings {
+  jpegQuality: number;
+  // Longest side of a photo when the question has no orx:max-pixels.
+  maxPixels: number | null;
+  // Recording bitrates; undefined leaves the browser's default.
+  videoBitsPerSecond?: number;
+  audioBitsPerSecond?: number;
+}
+
+const SETTINGS: Record<MediaQuality, MediaQualitySettings> = {
+  low: { jpegQuality: 0.6, maxPixels: 1024, videoBitsPerSecond: 250_000, audioBitsPerSecond: 24_000 },
+  medium: { jpegQuality: 0.75, maxPixels: 1600, videoBitsPerSecond: 600_000, audioBitsPerSecond: 48_000 },
+  high: { jpegQuality: 0.85, maxPixels: 2560, videoBitsPerSecond: 1_500_000, audioBitsPerSecond: 96_000 },
+  original: { jpegQuality: 0.92, maxPixels: null },
+};
+
+export function mediaQualitySettings(quality: string | null | undefined): MediaQualitySettings {
+  return SETTINGS[quality as MediaQuality] || SETTINGS.medium;
+}
+
+// The question's orx:max-pixels wins over the project's default.
+export function photoMaxPixels(field: FormField, settings: MediaQualitySettings): number | null {
+  const maxPixels = Number(field.bind.maxPixels);
+  return maxPixels > 0 ? maxPixels : settings.maxPixels;
+}
+
+// Decoded size of a base64 data URL, in bytes.
+export function dataUrlSize(dataUrl: string): number {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.max(0, Math.floor((base64.length * 3) / 4) - padding);
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+}
+
+// Average bitrate of an audio or video data URL, or null when the browser
+// can't tell its length (e.g. WebM files without a duration).
+export function mediaBitrate(dataUrl: string): Promise<number | null> {
+  return new Promise((resolve) => {
+    const media = document.createElement('video');
+    media.preload = 'metadata';
+    media.onloadedmetadata = () => {
+      const duration = media.duration;
+      resolve(Number.isFinite(duration) && duration > 0 ? (dataUrlSize(dataUrl) * 8) / duration : null);
+    };
+    media.onerror = () => resolve(null);
+    media.src = dataUrl;
+  });
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not read the image'));
+    image.src = src;
+  });
+}
+
+// Scales a photo so its longest side is at most `maxPixels` and re-encodes it
+// as JPEG. The original is kept when re-encoding would not make it smaller.
+export async function compressImage(dataUrl: string, maxPixels: number | null, jpegQuality: number): Promise<string> {
+  const image = await loadImage(dataUrl);
+  const longest = Math.max(image.naturalWidth, image.naturalHeight);
+  const scale = maxPixels && longest > maxPixels ? maxPixels / longest : 1;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  const context = canvas.getContext('2d');
+  if (!context) return dataUrl;
+
+  // JPEG has no transparency; keep transparent areas white rather than black.
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const compressed = canvas.toDataURL('image/jpeg', jpegQuality);
+  return scale === 1 && dataUrlSize(compressed) >= dataUrlSize(dataUrl) ? dataUrl : compressed;
+}
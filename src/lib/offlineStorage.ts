@@ -1,5 +1,8 @@
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
 import type { Database } from './database.types';
+import { downloadFormMedia, readFormMediaFiles } from './formMedia';
+import { dataUrlToBlob, isDataUrl, mapUploadAnswers, type SubmissionMediaFile } from './submissionMedia';
+import type { FormField } from './xmlParser';
 
 type FormRow = Database['public']['Tables']['forms']['Row'];
 type SubmissionRow = Database['public']['Tables']['submissions']['Row'];
@@ -13,7 +16,16 @@ interface OfflineDB extends DBSchema {
       name: string;
       xmlContent: string;
       version: string;
+      // Lifecycle status and collection window, checked when collecting
+      // offline. Copies saved before these existed have none.
+      status?: string;
+      opensAt?: string | null;
+      closesAt?: string | null;
+      // The project's media quality when the form was downloaded.
+      mediaQuality?: string;
       fields: any[];
+      // Form media files by file name (CSV/XML instances, images, ...).
+      media?: Record<string, Blob>;
       downloadedAt: number;
     };
     indexes: { 'by-project': string };
@@ -23,8 +35,14 @@ interface OfflineDB extends DBSchema {
     value: {
       id: string;
       formId: string;
+      // Version of the form the submission was collected on.
+      formVersion: string | null;
+      // Entered through a draft form's test link.
+      isTest?: boolean;
       userId: string | null;
-      data: any;
+      data: Record<string, unknown>;
+      // Media answers as Blobs, uploaded when the submission syncs.
+      attachments?: SubmissionMediaFile[];
       createdAt: number;
       synced: boolean;
       syncAttempts: number;
@@ -36,10 +54,19 @@ interface OfflineDB extends DBSchema {
     key: string;
     value: {
       formId: string;
-      data: any;
+      // Media answers are kept as Blobs; see saveFormProgress.
+      data: Record<string, unknown>;
       lastSaved: number;
     };
   };
+  userPreferences: {
+    key: string;
+    value: {
+      userId: string;
+      language: string | null;
+      updatedAt: number;
+    };
+  };
 }
 
 let dbInstance: IDBPDatabase<OfflineDB> | null = null;
@@ -47,16 +74,22 @@ let dbInstance: IDBPDatabase<OfflineDB> | null = null;
 async function getDB(): Promise<IDBPDatabase<OfflineDB>> {
   if (dbInstance) return dbInstance;
 
-  dbInstance = await openDB<OfflineDB>('data-collection-offline', 1, {
-    upgrade(db) {
-      const formStore = db.createObjectStore('forms', { keyPath: 'id' });
-      formStore.createIndex('by-project', 'projectId');
+  dbInstance = await openDB<OfflineDB>('data-collection-offline', 2, {
+    upgrade(db, oldVersion) {
+      if (oldVersion < 1) {
+        const formStore = db.createObjectStore('forms', { keyPath: 'id' });
+        formStore.createIndex('by-project', 'projectId');
 
-      const submissionStore = db.createObjectStore('submissions', { keyPath: 'id' });
-      submissionStore.createIndex('by-form', 'formId');
-      submissionStore.createIndex('by-sync-status', 'synced');
+        const submissionStore = db.createObjectStore('submissions', { keyPath: 'id' });
+        submissionStore.createIndex('by-form', 'formId');
+        submissionStore.createIndex('by-sync-status', 'synced');
 
-      db.createObjectStore('formProgress', { keyPath: 'formId' });
+        db.createObjectStore('formProgress', { keyPath: 'formId' });
+      }
+
+      if (oldVersion < 2) {
+        db.createObjectStore('userPreferences', { keyPath: 'userId' });
+      }
     },
   });
 
@@ -65,8 +98,11 @@ async function getDB(): Promise<IDBPDatabase<OfflineDB>> {
 
 export async function saveFormOffline(
   form: FormRow,
-  fields: any[]
+  fields: any[],
+  mediaQuality?: string
 ): Promise<void> {
+  const media = await downloadFormMedia(readFormMediaFiles(form.media_files));
+
   const db = await getDB();
   await db.put('forms', {
     id: form.id,
@@ -74,18 +110,46 @@ export async function saveFormOffline(
     name: form.name,
     xmlContent: form.xml_content,
     version: form.version,
+    status: form.status,
+    opensAt: form.opens_at,
+    closesAt: form.closes_at,
+    mediaQuality,
     fields,
+    media,
     downloadedAt: Date.now(),
   });
 }
 
+// Keeps the offline copy's status and schedule in step with the server, so a
+// form closed after it was downloaded is closed on the device too.
+export async function updateOfflineFormSchedule(
+  formId: string,
+  schedule: { status: string; opens_at: string | null; closes_at: string | null }
+): Promise<void> {
+  const db = await getDB();
+  const form = await db.get('forms', formId);
+  if (!form) return;
+
+  await db.put('forms', {
+    ...form,
+    status: schedule.status,
+    opensAt: schedule.opens_at,
+    closesAt: schedule.closes_at,
+  });
+}
+
 export async function getOfflineForm(formId: string): Promise<{
   id: string;
   projectId: string;
   name: string;
   xmlContent: string;
   version: string;
+  status?: string;
+  opensAt?: string | null;
+  closesAt?: string | null;
+  mediaQuality?: string;
   fields: any[];
+  media?: Record<string, Blob>;
   downloadedAt: number;
 } | undefined> {
   const db = await getDB();
@@ -99,7 +163,11 @@ export async function getAllOfflineForms(): Promise<
     name: string;
     xmlContent: string;
     version: string;
+    status?: string;
+    opensAt?: string | null;
+    closesAt?: string | null;
     fields: any[];
+    media?: Record<string, Blob>;
     downloadedAt: number;
   }>
 > {
@@ -118,14 +186,18 @@ export async function deleteOfflineForm(formId: string): Promise<void> {
 }
 
 export async function queueSubmission(
-  submission: Omit<SubmissionRow, 'created_at' | 'synced_at'>
+  submission: Pick<SubmissionRow, 'id' | 'form_id' | 'form_version' | 'is_test' | 'user_id'> & { data: Record<string, unknown> },
+  attachments: SubmissionMediaFile[] = []
 ): Promise<void> {
   const db = await getDB();
   await db.put('submissions', {
     id: submission.id,
     formId: submission.form_id,
+    formVersion: submission.form_version,
+    isTest: submission.is_test,
     userId: submission.user_id,
     data: submission.data,
+    attachments,
     createdAt: Date.now(),
     synced: false,
     syncAttempts: 0,
@@ -136,8 +208,11 @@ export async function getPendingSubmissions(): Promise<
   Array<{
     id: string;
     formId: string;
+    formVersion: string | null;
+    isTest?: boolean;
     userId: string | null;
-    data: any;
+    data: Record<string, unknown>;
+    attachments?: SubmissionMediaFile[];
     createdAt: number;
     synced: boolean;
     syncAttempts: number;
@@ -175,22 +250,55 @@ export async function deleteSubmission(submissionId: string): Promise<void> {
   await db.delete('submissions', submissionId);
 }
 
-export async function saveFormProgress(formId: string, data: any): Promise<void> {
+// Photos, recordings and files in a draft are stored as Blobs rather than the
+// data URLs the widgets use, which take a third more space; getFormProgress
+// turns them back.
+export async function saveFormProgress(
+  formId: string,
+  data: Record<string, unknown>,
+  fields: FormField[]
+): Promise<void> {
   const db = await getDB();
   await db.put('formProgress', {
     formId,
-    data,
+    data: mapUploadAnswers(data, fields, (value) => (isDataUrl(value) ? dataUrlToBlob(value) : value)),
     lastSaved: Date.now(),
   });
 }
 
 export async function getFormProgress(formId: string): Promise<{
   formId: string;
-  data: any;
+  data: Record<string, unknown>;
   lastSaved: number;
 } | undefined> {
   const db = await getDB();
-  return await db.get('formProgress', formId);
+  const progress = await db.get('formProgress', formId);
+  if (!progress) return undefined;
+
+  return { ...progress, data: (await restoreDataUrls(progress.data)) as Record<string, unknown> };
+}
+
+// Drafts saved before media was stored as Blobs still hold data URLs, which
+// are left as they are.
+async function restoreDataUrls(value: unknown): Promise<unknown> {
+  if (value instanceof Blob) return await blobToDataUrl(value);
+  if (Array.isArray(value)) return await Promise.all(value.map(restoreDataUrls));
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, entry]) => [key, await restoreDataUrls(entry)] as const)
+    );
+    return Object.fromEntries(entries);
+  }
+  return value;
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
 }
 
 export async function clearFormProgress(formId: string): Promise<void> {
@@ -198,6 +306,23 @@ export async function clearFormProgress(formId: string): Promise<void> {
   await db.delete('formProgress', formId);
 }
 
+// Preferences are kept per user on the device so they apply offline too.
+// Signed-out sessions share the 'anonymous' entry.
+export async function getLanguagePreference(userId: string | null): Promise<string | null> {
+  const db = await getDB();
+  const preferences = await db.get('userPreferences', userId || 'anonymous');
+  return preferences?.language ?? null;
+}
+
+export async function saveLanguagePreference(userId: string | null, language: string): Promise<void> {
+  const db = await getDB();
+  await db.put('userPreferences', {
+    userId: userId || 'anonymous',
+    language,
+    updatedAt: Date.now(),
+  });
+}
+
 export async function getStorageEstimate(): Promise<{
   usage: number;
   quota: number;
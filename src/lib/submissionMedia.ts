@@ -0,0 +1,209 @@
+import { supabase } from './supabase';
+import { flattenFields, type FormField } from './xmlParser';
+import { repeatInstanceKey } from './formLogic';
+import type { Database } from './database.types';
+
+type FormRow = Database['public']['Tables']['forms']['Row'];
+type AttachmentRow = Database['public']['Tables']['attachments']['Row'];
+
+export const SUBMISSION_MEDIA_BUCKET = 'submission-media';
+
+// Signed URLs for the submission detail view last an hour.
+const SIGNED_URL_SECONDS = 60 * 60;
+
+// A photo, recording or file taken out of a submission's answers. The answer
+// keeps only `fileName`; the Blob is queued on the device until it is uploaded.
+export interface SubmissionMediaFile {
+  // The answer's full path, e.g. `photo`, `photo#original` or, inside a
+  // repeat, `household[2]/photo`.
+  questionName: string;
+  fileName: string;
+  blob: Blob;
+}
+
+export interface SubmissionAttachment {
+  fileName: string;
+  type: string;
+  url: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/svg+xml': 'svg',
+  'audio/mpeg': 'mp3',
+  'text/plain': 'txt',
+};
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const comma = dataUrl.indexOf(',');
+  const header = dataUrl.slice(5, comma);
+  const payload = dataUrl.slice(comma + 1);
+  const type = header.split(';')[0] || 'application/octet-stream';
+
+  if (!header.includes(';base64')) return new Blob([decodeURIComponent(payload)], { type });
+
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+}
+
+const UPLOAD_TYPES = ['image', 'audio', 'video', 'binary'];
+
+export function isDataUrl(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith('data:') && value.includes(',');
+}
+
+// Returns the answers with `map` applied to every upload answer and the
+// companions kept next to it (`path#name`), inside repeats too. Other answers
+// are left alone. `questionName` is the answer's full path, e.g.
+// `household[2]/photo`.
+export function mapUploadAnswers(
+  data: Record<string, unknown>,
+  fields: FormField[],
+  map: (value: unknown, questionName: string) => unknown
+): Record<string, unknown> {
+  const visit = (values: Record<string, unknown>, formFields: FormField[], prefix: string): Record<string, unknown> => {
+    const result = { ...values };
+
+    formFields.forEach((field) => {
+      if (field.type === 'repeat') {
+        const instances = values[field.path];
+        if (!Array.isArray(instances)) return;
+        const childFields = flattenFields(field.children || []);
+        result[field.path] = instances.map((instance, index) =>
+          visit(instance as Record<string, unknown>, childFields, `${repeatInstanceKey(prefix, field.path, index)}/`)
+        );
+        return;
+      }
+
+      if (!UPLOAD_TYPES.includes(field.type)) return;
+
+      Object.keys(values)
+        .filter((key) => key === field.path || key.startsWith(`${field.path}#`))
+        .forEach((key) => {
+          result[key] = map(values[key], `${prefix}${key}`);
+        });
+    });
+
+    return result;
+  };
+
+  return visit(data, fields, '');
+}
+
+// Upload widgets answer with data URLs; those, and the data URLs they keep as
+// companions (e.g. an annotated photo's original), are swapped for file names
+// like `photo.jpg`, `photo-original.jpg` or, inside repeats, `photo_2.jpg`.
+// Other answers are left alone, even when they happen to start with `data:`.
+export function extractSubmissionMedia(data: Record<string, unknown>, fields: FormField[]): {
+  data: Record<string, unknown>;
+  files: SubmissionMediaFile[];
+} {
+  const files: SubmissionMediaFile[] = [];
+  const usedNames = new Set<string>();
+
+  const fileNameFor = (questionName: string, type: string): string => {
+    const base = (questionName.split('/').pop() || 'file').replace('#', '-').replace(/[^\w.-]/g, '_');
+    const extension = EXTENSIONS[type] || type.split('/')[1]?.split(/[+;]/)[0] || 'bin';
+    let fileName = `${base}.${extension}`;
+    for (let n = 2; usedNames.has(fileName); n++) fileName = `${base}_${n}.${extension}`;
+    usedNames.add(fileName);
+    return fileName;
+  };
+
+  const extract = (value: unknown, questionName: string): unknown => {
+    if (!isDataUrl(value)) return value;
+
+    const blob = dataUrlToBlob(value);
+    const fileName = fileNameFor(questionName, blob.type);
+    files.push({ questionName, fileName, blob });
+    return fileName;
+  };
+
+  return { data: mapUploadAnswers(data, fields, extract), files };
+}
+
+// Objects are stored under `<project_id>/<submission_id>/<file name>`. Uploads
+// overwrite and attachment rows are only added once, so a sync that failed
+// part-way can simply be retried.
+export async function uploadSubmissionMedia(
+  submissionId: string,
+  formId: string,
+  files: SubmissionMediaFile[]
+): Promise<void> {
+  if (files.length === 0) return;
+
+  const { data: form, error: formError } = await supabase
+    .from('forms')
+    .select('project_id')
+    .eq('id', formId)
+    .maybeSingle<Pick<FormRow, 'project_id'>>();
+
+  if (formError) throw formError;
+  if (!form) throw new Error('Form not found');
+
+  const rows = [];
+  for (const file of files) {
+    const path = `${form.project_id}/${submissionId}/${file.fileName}`;
+    const { error } = await supabase.storage
+      .from(SUBMISSION_MEDIA_BUCKET)
+      .upload(path, file.blob, { upsert: true, contentType: file.blob.type || undefined });
+
+    if (error) throw new Error(`Failed to upload ${file.fileName}: ${error.message}`);
+
+    rows.push({
+      submission_id: submissionId,
+      file_name: file.fileName,
+      file_type: file.blob.type,
+      file_size: file.blob.size,
+      storage_path: path,
+      question_name: file.questionName,
+    });
+  }
+
+  const { error } = await supabase
+    .from('attachments')
+    .upsert(rows, { onConflict: 'submission_id,storage_path', ignoreDuplicates: true });
+
+  if (error) throw error;
+}
+
+// A submission's attachments by file name, with signed URLs to view them.
+export async function getSubmissionAttachments(submissionId: string): Promise<Record<string, SubmissionAttachment>> {
+  const { data: rows, error } = await supabase
+    .from('attachments')
+    .select('*')
+    .eq('submission_id', submissionId)
+    .returns<AttachmentRow[]>();
+
+  if (error) throw error;
+  if (!rows || rows.length === 0) return {};
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from(SUBMISSION_MEDIA_BUCKET)
+    .createSignedUrls(rows.map((row) => row.storage_path), SIGNED_URL_SECONDS);
+
+  if (signError) throw signError;
+
+  const attachments: Record<string, SubmissionAttachment> = {};
+  rows.forEach((row, index) => {
+    const url = signed?.[index]?.signedUrl;
+    if (url) attachments[row.file_name] = { fileName: row.file_name, type: row.file_type, url };
+  });
+  return attachments;
+}
+
+export async function deleteSubmissionMedia(projectId: string, submissionId: string): Promise<void> {
+  const folder = `${projectId}/${submissionId}`;
+  const { data: objects, error } = await supabase.storage.from(SUBMISSION_MEDIA_BUCKET).list(folder);
+
+  if (error) throw error;
+  if (!objects || objects.length === 0) return;
+
+  const { error: removeError } = await supabase.storage
+    .from(SUBMISSION_MEDIA_BUCKET)
+    .remove(objects.map((object) => `${folder}/${object.name}`));
+
+  if (removeError) throw removeError;
+}
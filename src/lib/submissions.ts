@@ -0,0 +1,70 @@
+import { supabase } from './supabase';
+import { queueSubmission, clearFormProgress } from './offlineStorage';
+import { syncSubmissionToTeable } from './teableSync';
+import { extractSubmissionMedia, uploadSubmissionMedia } from './submissionMedia';
+import type { FormField } from './xmlParser';
+import type { Json } from './database.types';
+
+export interface NewSubmission {
+  formId: string;
+  formVersion: string | null;
+  userId: string | null;
+  data: Record<string, unknown>;
+  // The form's fields, used to find the upload answers in `data`.
+  fields: FormField[];
+  isTest?: boolean;
+}
+
+// Every collected form goes through here. Media answers are taken out of the
+// data and uploaded as attachments. Online, the submission is saved and synced
+// to Teable in the background; offline, or when the media upload fails, it is
+// queued and the background sync does the same once the device is back online.
+// Either way the saved progress for the form is cleared.
+export async function submitFormData(submission: NewSubmission, isOnline: boolean): Promise<'saved' | 'queued'> {
+  const { data, files } = extractSubmissionMedia(submission.data, submission.fields);
+  const row = {
+    form_id: submission.formId,
+    form_version: submission.formVersion,
+    user_id: submission.userId,
+    data: data as Json,
+    is_test: submission.isTest ?? false,
+  };
+
+  if (isOnline) {
+    const { data: saved, error } = await supabase
+      .from('submissions')
+      .insert(row)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    try {
+      await uploadSubmissionMedia(saved.id, submission.formId, files);
+    } catch (err) {
+      console.error('Media upload failed, queueing for retry:', err);
+      await queueSubmission({ id: saved.id, ...row, data }, files);
+      await clearFormProgress(submission.formId);
+      return 'queued';
+    }
+
+    syncSubmissionToTeable(saved.id).catch(err => {
+      console.error('Background sync failed:', err);
+    });
+
+    await clearFormProgress(submission.formId);
+    return 'saved';
+  }
+
+  await queueSubmission(
+    {
+      id: `sub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ...row,
+      data,
+    },
+    files
+  );
+
+  await clearFormProgress(submission.formId);
+  return 'queued';
+}
@@ -1,3 +1,5 @@
+import { extractGeoJSON } from './geometry';
+
 interface TeableConfig {
   baseUrl: string;
   apiToken: string;
@@ -168,6 +170,11 @@ export async function fetchTeableTables(
 export function extractCoordinates(value: any): [number, number] | null {
   if (!value) return null;
 
+  const geometry = extractGeoJSON(value);
+  if (geometry) {
+    return geometry.type === 'Point' ? [geometry.coordinates[1], geometry.coordinates[0]] : null;
+  }
+
   if (typeof value === 'string') {
     const trimmed = value.trim();
     const parts = trimmed.split(/[,\s]+/).map(p => parseFloat(p.trim())).filter(n => !isNaN(n));
@@ -268,7 +275,7 @@ export function findAllPotentialGeometryFields(
     if (sampleRecords && sampleRecords.length > 0) {
       for (const record of sampleRecords.slice(0, 5)) {
         const value = record.fields[field.id];
-        if (extractCoordinates(value)) {
+        if (extractCoordinates(value) || extractGeoJSON(value)) {
           hasCoordinateData = true;
           console.log(`Field "${field.name}" (${field.id}) contains coordinate data:`, value);
           break;
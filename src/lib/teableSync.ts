@@ -1,9 +1,18 @@
 import { supabase } from './supabase';
+import { parseXForm, flattenFields, FormField } from './xmlParser';
+import { odkGeometryToGeoJSON } from './geometry';
 import type { Database } from './database.types';
 
 type ProjectRow = Database['public']['Tables']['projects']['Row'];
+type FormRow = Database['public']['Tables']['forms']['Row'];
+type UserRow = Database['public']['Tables']['users']['Row'];
 type SubmissionRow = Database['public']['Tables']['submissions']['Row'];
 
+interface TeableRecordRef {
+  tableId: string;
+  recordId: string;
+}
+
 export async function syncSubmissionToTeable(
   submissionId: string
 ): Promise<{ success: boolean; error?: string }> {
@@ -22,57 +31,63 @@ export async function syncSubmissionToTeable(
         )
       `)
       .eq('id', submissionId)
-      .maybeSingle();
+      .maybeSingle<SubmissionRow & {
+        forms: FormRow & { projects: ProjectRow };
+        users: Pick<UserRow, 'username' | 'email'> | null;
+      }>();
 
     if (submissionError) throw submissionError;
     if (!submission) throw new Error('Submission not found');
 
-    const form = (submission as any).forms;
-    const project = form?.projects as ProjectRow;
-    const user = (submission as any).users;
+    const form = submission.forms;
+    const project = form.projects;
+    const user = submission.users;
 
-    if (!project.teable_base_url || !project.teable_api_token || !project.teable_table_id) {
-      return { success: false, error: 'Teable not configured for this project' };
+    if (!project.teable_base_url || !project.teable_api_token || !form.teable_table_id) {
+      return { success: false, error: 'Teable not configured for this form' };
     }
 
-    const submissionData = submission.data as Record<string, any>;
+    // Test data from a draft's test link stays out of the project's table.
+    if (submission.is_test) {
+      return { success: false, error: 'Test submissions are not synced to Teable' };
+    }
+
+    const submissionData = submission.data as Record<string, unknown>;
+    const fields = parseXForm(form.xml_content).fields;
+    const repeatTables = (form.teable_repeat_tables || {}) as Record<string, string>;
+
+    const missingRepeat = findRepeatWithoutTable(fields, submissionData, repeatTables, '');
+    if (missingRepeat) {
+      throw new Error(`No linked Teable table for repeat "${missingRepeat}". Re-upload the form to create it.`);
+    }
 
-    const record: Record<string, any> = {
+    const record: Record<string, unknown> = {
       'Submission ID': submission.id,
       'Submitted By': user?.username || 'Unknown',
       'Submitted At': new Date(submission.created_at).toISOString(),
+      ...toTeableFields(submissionData, fields),
     };
 
-    Object.entries(submissionData).forEach(([key, value]) => {
-      if (typeof value === 'object' && value !== null) {
-        if (value.latitude !== undefined) {
-          record[key] = `${value.latitude}, ${value.longitude}`;
-        } else {
-          record[key] = JSON.stringify(value);
-        }
-      } else {
-        record[key] = value;
-      }
-    });
+    // A retry after a failed repeat sync updates the record the first attempt
+    // created instead of adding the submission to the table a second time.
+    let recordId = submission.teable_record_id;
+    const recordUrl = recordId
+      ? `${project.teable_base_url}/api/table/${form.teable_table_id}/record/${recordId}`
+      : `${project.teable_base_url}/api/table/${form.teable_table_id}/record`;
 
     console.log('Syncing to Teable:', {
-      url: `${project.teable_base_url}/api/table/${project.teable_table_id}/record`,
+      url: recordUrl,
       record,
     });
 
-    const response = await fetch(
-      `${project.teable_base_url}/api/table/${project.teable_table_id}/record`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${project.teable_api_token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          records: [{ fields: record }]
-        }),
-      }
-    );
+    const response = await fetch(recordUrl, {
+      method: recordId ? 'PATCH' : 'POST',
+      headers: {
+        'Authorization': `Bearer ${project.teable_api_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(recordId ? { record: { fields: record } } : { records: [{ fields: record }] }),
+    });
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -83,7 +98,28 @@ export async function syncSubmissionToTeable(
     const data = await response.json();
     console.log('Teable sync success:', data);
 
-    const recordId = data.records?.[0]?.id || data.id;
+    if (!recordId) {
+      recordId = (data.records?.[0]?.id || data.id) as string;
+
+      const { error: recordIdError } = await supabase
+        .from('submissions')
+        .update({ teable_record_id: recordId })
+        .eq('id', submissionId);
+
+      if (recordIdError) throw recordIdError;
+    }
+
+    // Repeat rows added before a failure are removed again, so the retry adds
+    // each of them once.
+    const repeatRecords: TeableRecordRef[] = [];
+    try {
+      await syncRepeatRows(project, fields, submissionData, recordId, '', repeatTables, submission.id, repeatRecords);
+    } catch (repeatError) {
+      await deleteTeableRecords(project, repeatRecords).catch((deleteError) => {
+        console.error('Failed to remove partially synced repeat rows:', deleteError);
+      });
+      throw repeatError;
+    }
 
     await supabase
       .from('submissions')
@@ -110,6 +146,150 @@ export async function syncSubmissionToTeable(
   }
 }
 
+function toTeableFields(
+  values: Record<string, unknown>,
+  fields: FormField[]
+): Record<string, unknown> {
+  // Notes have no Teable column; repeats go to their own tables.
+  const skippedPaths = new Set(fields.filter((f) => f.type === 'repeat' || f.type === 'note').map((f) => f.path));
+  const multipleSelectPaths = new Set(fields.filter((f) => f.type === 'select_multiple').map((f) => f.path));
+  const geometryTypes = new Map(
+    fields.filter((f) => f.type === 'geotrace' || f.type === 'geoshape').map((f) => [f.path, f.type])
+  );
+  const record: Record<string, unknown> = {};
+
+  Object.entries(values).forEach(([key, value]) => {
+    // Companion values (`path#name`, e.g. an annotated photo's original) have no column.
+    if (skippedPaths.has(key) || key.includes('#')) return;
+
+    if (multipleSelectPaths.has(key)) {
+      record[key] = typeof value === 'string' ? value.split(' ').filter(Boolean) : [];
+      return;
+    }
+
+    // Lines and shapes go to Teable as GeoJSON text, which the map view draws.
+    if (geometryTypes.has(key)) {
+      const geometry = odkGeometryToGeoJSON(value, geometryTypes.get(key)!);
+      record[key] = geometry ? JSON.stringify(geometry) : null;
+      return;
+    }
+
+    if (typeof value === 'object' && value !== null) {
+      if ('latitude' in value && 'longitude' in value) {
+        record[key] = `${value.latitude}, ${value.longitude}`;
+      } else {
+        record[key] = JSON.stringify(value);
+      }
+    } else {
+      record[key] = value;
+    }
+  });
+
+  return record;
+}
+
+function findRepeatWithoutTable(
+  fields: FormField[],
+  values: Record<string, unknown>,
+  repeatTables: Record<string, string>,
+  parentKey: string
+): string | null {
+  for (const field of fields.filter((f) => f.type === 'repeat')) {
+    const key = parentKey ? `${parentKey}/${field.path}` : field.path;
+    const rows = values[field.path];
+    if (!Array.isArray(rows) || rows.length === 0) continue;
+    if (!repeatTables[key]) return key;
+
+    const childFields = flattenFields(field.children || []);
+    for (const row of rows) {
+      const missing = findRepeatWithoutTable(childFields, row, repeatTables, key);
+      if (missing) return missing;
+    }
+  }
+  return null;
+}
+
+// Each repeat instance becomes a row in the repeat's child table, linked back
+// to the record it was collected under. Nested repeats recurse with the child
+// row as their parent.
+async function syncRepeatRows(
+  project: ProjectRow,
+  fields: FormField[],
+  values: Record<string, unknown>,
+  parentRecordId: string,
+  parentKey: string,
+  repeatTables: Record<string, string>,
+  submissionId: string,
+  createdRecords: TeableRecordRef[]
+): Promise<void> {
+  for (const field of fields.filter((f) => f.type === 'repeat')) {
+    const key = parentKey ? `${parentKey}/${field.path}` : field.path;
+    const value = values[field.path];
+    const rows: Record<string, unknown>[] = Array.isArray(value) ? value : [];
+    if (rows.length === 0) continue;
+
+    const childFields = flattenFields(field.children || []);
+
+    const response = await fetch(
+      `${project.teable_base_url}/api/table/${repeatTables[key]}/record`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${project.teable_api_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          records: rows.map((row, index) => ({
+            fields: {
+              'Submission ID': submissionId,
+              'Repeat Index': index + 1,
+              'Parent': { id: parentRecordId },
+              ...toTeableFields(row, childFields),
+            },
+          })),
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Teable API error:', errorText);
+      throw new Error(`Teable sync failed for repeat "${key}": ${errorText}`);
+    }
+
+    const data = await response.json();
+    const created: Array<{ id: string }> = data.records || [];
+    createdRecords.push(...created.map((record) => ({ tableId: repeatTables[key], recordId: record.id })));
+
+    for (let i = 0; i < rows.length; i++) {
+      if (created[i]) {
+        await syncRepeatRows(project, childFields, rows[i], created[i].id, key, repeatTables, submissionId, createdRecords);
+      }
+    }
+  }
+}
+
+async function deleteTeableRecords(project: ProjectRow, records: TeableRecordRef[]): Promise<void> {
+  const byTable = new Map<string, string[]>();
+  for (const record of records) {
+    byTable.set(record.tableId, [...(byTable.get(record.tableId) || []), record.recordId]);
+  }
+
+  for (const [tableId, recordIds] of byTable) {
+    const query = new URLSearchParams(recordIds.map((recordId) => ['recordIds', recordId]));
+    const response = await fetch(`${project.teable_base_url}/api/table/${tableId}/record?${query}`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${project.teable_api_token}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete Teable records: ${await response.text()}`);
+    }
+  }
+}
+
 export async function syncAllPendingSubmissions(projectId?: string): Promise<{
   total: number;
   successful: number;
@@ -119,15 +299,17 @@ export async function syncAllPendingSubmissions(projectId?: string): Promise<{
     let query = supabase
       .from('submissions')
       .select('id')
-      .eq('synced_to_teable', false);
+      .eq('synced_to_teable', false)
+      .eq('is_test', false);
 
     if (projectId) {
-      query = query.in('form_id', [
-        supabase
-          .from('forms')
-          .select('id')
-          .eq('project_id', projectId)
-      ]);
+      const { data: forms, error: formsError } = await supabase
+        .from('forms')
+        .select('id')
+        .eq('project_id', projectId);
+
+      if (formsError) throw formsError;
+      query = query.in('form_id', (forms || []).map((form) => form.id));
     }
 
     const { data: submissions, error } = await query;
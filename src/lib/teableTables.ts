@@ -0,0 +1,235 @@
+import { supabase } from './supabase';
+import { mapODKTypeToTeable, flattenFields, FormField, ParsedForm } from './xmlParser';
+import type { Database } from './database.types';
+
+type ProjectRow = Database['public']['Tables']['projects']['Row'];
+type FormRow = Database['public']['Tables']['forms']['Row'];
+type FormTeableTables = Pick<FormRow, 'id' | 'teable_table_id' | 'teable_table_name' | 'teable_repeat_tables'>;
+
+// Creates the Teable table for a newly uploaded form, plus a linked child table
+// per repeat, and stores their ids on the form.
+export async function createTeableTable(proj: ProjectRow, formId: string, parsed: ParsedForm): Promise<void> {
+  const tableName = parsed.title.replace(/[^a-zA-Z0-9]/g, '_');
+
+  console.log('Creating Teable table with:', {
+    baseUrl: proj.teable_base_url,
+    baseId: proj.teable_base_id,
+    hasToken: !!proj.teable_api_token,
+    tokenLength: proj.teable_api_token?.length,
+    parsedFieldsCount: parsed.fields?.length || 0,
+    parsedFields: parsed.fields,
+  });
+
+  if (!parsed.fields || parsed.fields.length === 0) {
+    throw new Error('No fields found in the form XML. Please check the XML format.');
+  }
+
+  const fields = toTeableFieldDefinitions(parsed.fields);
+
+  console.log('Teable fields to create:', fields);
+
+  const response = await fetch(`${proj.teable_base_url}/api/base/${proj.teable_base_id}/table`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${proj.teable_api_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      name: tableName,
+      fields: [
+        { name: 'Submission ID', type: 'singleLineText' },
+        { name: 'Submitted By', type: 'singleLineText' },
+        { name: 'Submitted At', type: 'date' },
+        ...fields,
+      ],
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Teable API error:', response.status, errorText);
+    throw new Error(`Failed to create Teable table: ${response.status} ${errorText}`);
+  }
+
+  const data = await response.json();
+
+  const repeatTables: Record<string, string> = {};
+  await createRepeatTables(proj, parsed.fields, data.id, tableName, '', repeatTables);
+
+  const { error } = await supabase
+    .from('forms')
+    .update({
+      teable_table_id: data.id,
+      teable_table_name: tableName,
+      teable_repeat_tables: repeatTables,
+    })
+    .eq('id', formId);
+
+  if (error) throw error;
+
+  // The project's map and table views show the first form's table until
+  // another one is picked there.
+  if (!proj.teable_table_id) {
+    const { error: projectError } = await supabase
+      .from('projects')
+      .update({ teable_table_id: data.id, teable_table_name: tableName })
+      .eq('id', proj.id);
+
+    if (projectError) throw projectError;
+  }
+}
+
+// Publishing a new version keeps the existing tables; fields the new version
+// adds get new columns, in the main table or in their repeat's child table, and
+// repeats it adds get their own child table. Removed fields keep their columns
+// so earlier submissions stay intact.
+export async function addTeableColumns(
+  proj: ProjectRow,
+  form: FormTeableTables,
+  previous: ParsedForm,
+  parsed: ParsedForm
+): Promise<void> {
+  if (!form.teable_table_id) throw new Error('The form has no Teable table yet.');
+
+  await addMissingColumns(proj, form.teable_table_id, previous.fields, parsed.fields);
+
+  const repeatTables = { ...((form.teable_repeat_tables || {}) as Record<string, string>) };
+  const tableName = form.teable_table_name || parsed.title.replace(/[^a-zA-Z0-9]/g, '_');
+  await addRepeatTables(proj, previous.fields, parsed.fields, form.teable_table_id, tableName, '', repeatTables);
+
+  const { error } = await supabase
+    .from('forms')
+    .update({ teable_repeat_tables: repeatTables })
+    .eq('id', form.id);
+
+  if (error) throw error;
+}
+
+async function addMissingColumns(
+  proj: ProjectRow,
+  tableId: string,
+  previousFields: FormField[],
+  formFields: FormField[]
+): Promise<void> {
+  const previousPaths = new Set(previousFields.map((field) => field.path));
+  const newFields = formFields.filter((field) => !previousPaths.has(field.path));
+
+  for (const field of toTeableFieldDefinitions(newFields)) {
+    const response = await fetch(`${proj.teable_base_url}/api/table/${tableId}/field`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${proj.teable_api_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(field),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Teable API error:', response.status, errorText);
+      throw new Error(`Failed to add Teable column "${field.name}": ${response.status} ${errorText}`);
+    }
+  }
+}
+
+// Repeats that already have a child table get the columns their new questions
+// need; repeats without one get a table created the same way as on upload.
+async function addRepeatTables(
+  proj: ProjectRow,
+  previousFields: FormField[],
+  formFields: FormField[],
+  parentTableId: string,
+  parentTableName: string,
+  parentKey: string,
+  repeatTables: Record<string, string>
+): Promise<void> {
+  for (const repeat of formFields.filter((field) => field.type === 'repeat')) {
+    const key = parentKey ? `${parentKey}/${repeat.path}` : repeat.path;
+
+    if (!repeatTables[key]) {
+      await createRepeatTables(proj, [repeat], parentTableId, parentTableName, parentKey, repeatTables);
+      continue;
+    }
+
+    const previousRepeat = previousFields.find((field) => field.type === 'repeat' && field.path === repeat.path);
+    const previousChildren = flattenFields(previousRepeat?.children || []);
+    const childFields = flattenFields(repeat.children || []);
+
+    await addMissingColumns(proj, repeatTables[key], previousChildren, childFields);
+    await addRepeatTables(
+      proj,
+      previousChildren,
+      childFields,
+      repeatTables[key],
+      `${parentTableName}_${repeat.name}`,
+      key,
+      repeatTables
+    );
+  }
+}
+
+function toTeableFieldDefinitions(formFields: FormField[]) {
+  return formFields
+    .filter((field) => field.type !== 'repeat' && field.type !== 'note')
+    .map((field) => {
+      const teableType = mapODKTypeToTeable(field.type);
+      console.log(`Mapping field: ${field.path} (${field.type}) -> ${teableType}`);
+      return {
+        name: field.path,
+        type: teableType,
+        // Rank questions have choices too, but are stored as text.
+        options: field.choices && teableType.endsWith('Select')
+          ? { choices: field.choices.map((c) => ({ name: c.value })) }
+          : undefined,
+      };
+    });
+}
+
+// Every repeat gets its own child table whose rows link back to the parent
+// table (the form's table, or the enclosing repeat's table when nested).
+async function createRepeatTables(
+  proj: ProjectRow,
+  formFields: FormField[],
+  parentTableId: string,
+  parentTableName: string,
+  parentKey: string,
+  repeatTables: Record<string, string>
+): Promise<void> {
+  for (const repeat of formFields.filter((field) => field.type === 'repeat')) {
+    const key = parentKey ? `${parentKey}/${repeat.path}` : repeat.path;
+    const childTableName = `${parentTableName}_${repeat.name}`;
+    const childFields = flattenFields(repeat.children || []);
+
+    const response = await fetch(`${proj.teable_base_url}/api/base/${proj.teable_base_id}/table`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${proj.teable_api_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        name: childTableName,
+        fields: [
+          { name: 'Submission ID', type: 'singleLineText' },
+          { name: 'Repeat Index', type: 'number' },
+          {
+            name: 'Parent',
+            type: 'link',
+            options: { relationship: 'manyOne', foreignTableId: parentTableId },
+          },
+          ...toTeableFieldDefinitions(childFields),
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Teable API error:', response.status, errorText);
+      throw new Error(`Failed to create Teable table for repeat "${key}": ${response.status} ${errorText}`);
+    }
+
+    const data = await response.json();
+    repeatTables[key] = data.id;
+
+    await createRepeatTables(proj, childFields, data.id, childTableName, key, repeatTables);
+  }
+}
@@ -0,0 +1,527 @@
+import type { SheetRow } from './xlsxReader';
+
+export interface XLSFormError {
+  sheet: string;
+  // Spreadsheet row the problem is on, or null for sheet-level problems.
+  row: number | null;
+  message: string;
+}
+
+export interface XLSFormConversion {
+  xml: string | null;
+  errors: XLSFormError[];
+}
+
+interface SheetRecord {
+  row: number;
+  values: Record<string, string>;
+}
+
+interface SurveyNode {
+  row: number;
+  kind: 'question' | 'group' | 'repeat';
+  type: string;
+  // List name (select_one x) or file name (select_one_from_file x.csv).
+  typeArgument: string;
+  name: string;
+  ref: string;
+  values: Record<string, string>;
+  children: SurveyNode[];
+}
+
+interface QuestionType {
+  control: 'input' | 'upload' | 'trigger' | 'range' | null;
+  bindType: string;
+  mediatype?: string;
+  readonly?: boolean;
+  preload?: [string, string];
+}
+
+const QUESTION_TYPES: Record<string, QuestionType> = {
+  text: { control: 'input', bindType: 'string' },
+  integer: { control: 'input', bindType: 'int' },
+  decimal: { control: 'input', bindType: 'decimal' },
+  date: { control: 'input', bindType: 'date' },
+  time: { control: 'input', bindType: 'time' },
+  datetime: { control: 'input', bindType: 'dateTime' },
+  geopoint: { control: 'input', bindType: 'geopoint' },
+  geotrace: { control: 'input', bindType: 'geotrace' },
+  geoshape: { control: 'input', bindType: 'geoshape' },
+  barcode: { control: 'input', bindType: 'barcode' },
+  note: { control: 'input', bindType: 'string', readonly: true },
+  acknowledge: { control: 'trigger', bindType: 'string' },
+  range: { control: 'range', bindType: 'int' },
+  image: { control: 'upload', bindType: 'binary', mediatype: 'image/*' },
+  audio: { control: 'upload', bindType: 'binary', mediatype: 'audio/*' },
+  video: { control: 'upload', bindType: 'binary', mediatype: 'video/*' },
+  file: { control: 'upload', bindType: 'binary', mediatype: 'application/*' },
+  calculate: { control: null, bindType: 'string' },
+  hidden: { control: null, bindType: 'string' },
+  start: { control: null, bindType: 'dateTime', preload: ['timestamp', 'start'] },
+  end: { control: null, bindType: 'dateTime', preload: ['timestamp', 'end'] },
+  today: { control: null, bindType: 'date', preload: ['date', 'today'] },
+  deviceid: { control: null, bindType: 'string', preload: ['property', 'deviceid'] },
+  username: { control: null, bindType: 'string', preload: ['property', 'username'] },
+  email: { control: null, bindType: 'string', preload: ['property', 'email'] },
+  phonenumber: { control: null, bindType: 'string', preload: ['property', 'phonenumber'] },
+};
+
+const TYPE_ALIASES: Record<string, string> = {
+  string: 'text',
+  int: 'integer',
+  trigger: 'acknowledge',
+  select1: 'select_one',
+  select_all_that_apply: 'select_multiple',
+};
+
+const SELECT_TYPES = ['select_one', 'select_multiple', 'rank'];
+const SELECT_FROM_FILE_TYPES = ['select_one_from_file', 'select_multiple_from_file'];
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9._-]*$/;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Headers are matched case-insensitively; the language part of
+// `label::English (en)` keeps its case.
+function normalizeHeader(header: string): string {
+  const [column, ...language] = header.trim().split('::');
+  const base = column.trim().toLowerCase().replace(/\s+/g, '_');
+  return language.length > 0 ? `${base}::${language.join('::').trim()}` : base;
+}
+
+function toRecords(rows: SheetRow[]): SheetRecord[] {
+  const [header, ...body] = rows;
+  if (!header) return [];
+  const columns = header.cells.map(normalizeHeader);
+
+  return body.map((row) => {
+    const values: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      if (column && row.cells[index]) values[column] = row.cells[index];
+    });
+    return { row: row.rowNumber, values };
+  });
+}
+
+function findSheet(sheets: Record<string, SheetRow[]>, name: string): SheetRow[] | undefined {
+  const key = Object.keys(sheets).find((sheetName) => sheetName.trim().toLowerCase() === name);
+  return key ? sheets[key] : undefined;
+}
+
+function parseParameters(text: string | undefined): Record<string, string> {
+  const parameters: Record<string, string> = {};
+  (text || '').split(/[\s,;]+/).forEach((pair) => {
+    const [key, value] = pair.split('=');
+    if (key && value !== undefined) parameters[key.trim().toLowerCase()] = value.trim();
+  });
+  return parameters;
+}
+
+function isTruthy(value: string | undefined): boolean {
+  return ['yes', 'true', 'true()', '1'].includes((value || '').trim().toLowerCase());
+}
+
+function isFalsy(value: string | undefined): boolean {
+  return ['', 'no', 'false', 'false()', '0'].includes((value || '').trim().toLowerCase());
+}
+
+// Converts the survey, choices and settings sheets of an XLSForm into an
+// XForm. Problems are collected with the sheet row they come from instead of
+// stopping at the first one; `xml` is null when there are any.
+export function convertXLSForm(sheets: Record<string, SheetRow[]>, defaultFormId = 'data'): XLSFormConversion {
+  const errors: XLSFormError[] = [];
+  const addError = (sheet: string, row: number | null, message: string) => errors.push({ sheet, row, message });
+
+  const surveySheet = findSheet(sheets, 'survey');
+  if (!surveySheet) {
+    return { xml: null, errors: [{ sheet: 'survey', row: null, message: 'The workbook has no "survey" sheet' }] };
+  }
+
+  const settings = toRecords(findSheet(sheets, 'settings') || [])[0]?.values || {};
+  const survey = toRecords(surveySheet);
+  const choiceRecords = toRecords(findSheet(sheets, 'choices') || []);
+
+  const rootName = settings.name && NAME_PATTERN.test(settings.name) ? settings.name : 'data';
+  const rootRef = `/${rootName}`;
+  const formId = settings.form_id || defaultFormId.replace(/[^A-Za-z0-9_-]/g, '_') || 'data';
+  const title = settings.form_title || formId;
+  const version = settings.version || '';
+
+  const surveyHeaders = new Set(survey.flatMap((record) => Object.keys(record.values)));
+  if (surveySheet.length > 0 && (!surveyHeaders.has('type') || !surveyHeaders.has('name'))) {
+    addError('survey', surveySheet[0].rowNumber, 'The survey sheet needs "type" and "name" columns');
+  }
+
+  // Languages come from `label::Language` style columns on either sheet.
+  const languages: string[] = [];
+  [...survey, ...choiceRecords].forEach((record) => {
+    Object.keys(record.values).forEach((column) => {
+      const [base, language] = column.split('::');
+      if (language && ['label', 'hint'].includes(base) && !languages.includes(language)) {
+        languages.push(language);
+      }
+    });
+  });
+  const defaultLanguage = settings.default_language && languages.includes(settings.default_language)
+    ? settings.default_language
+    : languages[0];
+  const localized = (values: Record<string, string>, column: string, language = defaultLanguage): string =>
+    (language && values[`${column}::${language}`]) || values[column] || '';
+
+  // Choice lists.
+  const choiceLists = new Map<string, SheetRecord[]>();
+  choiceRecords.forEach((record) => {
+    const listName = record.values.list_name;
+    const name = record.values.name;
+    if (!listName && !name) return;
+    if (!listName) return addError('choices', record.row, 'Choice has no list_name');
+    if (!name) return addError('choices', record.row, `Choice in list "${listName}" has no name`);
+
+    const list = choiceLists.get(listName) || [];
+    if (list.some((choice) => choice.values.name === name)) {
+      addError('choices', record.row, `Duplicate choice "${name}" in list "${listName}"`);
+    }
+    list.push(record);
+    choiceLists.set(listName, list);
+  });
+
+  // Build the survey tree from begin/end group and repeat rows.
+  const rootNode: SurveyNode = { row: 0, kind: 'group', type: '', typeArgument: '', name: rootName, ref: rootRef, values: {}, children: [] };
+  const stack: SurveyNode[] = [rootNode];
+  const refsByName = new Map<string, string>();
+
+  survey.forEach((record) => {
+    const rawType = (record.values.type || '').trim().replace(/\s+/g, ' ');
+    const name = (record.values.name || '').trim();
+    if (!rawType) {
+      if (name) addError('survey', record.row, `Question "${name}" has no type`);
+      return;
+    }
+
+    const lowerType = rawType.toLowerCase();
+    const beginMatch = lowerType.match(/^begin[ _](group|repeat)$/);
+    const endMatch = lowerType.match(/^end[ _](group|repeat)$/);
+    const parent = stack[stack.length - 1];
+
+    if (endMatch) {
+      const open = stack.length > 1 ? stack[stack.length - 1] : null;
+      if (!open) {
+        addError('survey', record.row, `"${rawType}" has no matching "begin ${endMatch[1]}"`);
+      } else if (open.kind !== endMatch[1]) {
+        addError('survey', record.row, `"${rawType}" closes "${open.name}", which is a ${open.kind} (opened on row ${open.row})`);
+      } else {
+        stack.pop();
+      }
+      return;
+    }
+
+    if (!name) {
+      addError('survey', record.row, `"${rawType}" row has no name`);
+      return;
+    }
+    if (!NAME_PATTERN.test(name)) {
+      addError('survey', record.row, `"${name}" is not a valid name: use letters, digits, "_", "-" or "." and start with a letter or "_"`);
+      return;
+    }
+    if (refsByName.has(name)) {
+      addError('survey', record.row, `Duplicate name "${name}"`);
+      return;
+    }
+
+    const ref = `${parent.ref}/${name}`;
+    refsByName.set(name, ref);
+
+    if (beginMatch) {
+      const node: SurveyNode = {
+        row: record.row, kind: beginMatch[1] as 'group' | 'repeat', type: beginMatch[1], typeArgument: '', name, ref, values: record.values, children: [],
+      };
+      parent.children.push(node);
+      stack.push(node);
+      return;
+    }
+
+    const [typeName, ...typeRest] = rawType.split(' ');
+    const type = TYPE_ALIASES[typeName.toLowerCase()] || typeName.toLowerCase();
+    // "select_one list or_other" is accepted; the other option is not added.
+    const typeArgument = typeRest.join(' ').replace(/\s*or_other$/i, '').trim();
+
+    if (SELECT_TYPES.includes(type)) {
+      if (!typeArgument) {
+        addError('survey', record.row, `"${rawType}" needs a choice list name, e.g. "${type} yes_no"`);
+      } else if (!choiceLists.has(typeArgument)) {
+        addError('survey', record.row, `Choice list "${typeArgument}" is not defined on the choices sheet`);
+      }
+    } else if (SELECT_FROM_FILE_TYPES.includes(type)) {
+      if (!/\.(csv|xml)$/i.test(typeArgument)) {
+        addError('survey', record.row, `"${rawType}" needs a .csv or .xml file name`);
+      }
+    } else if (!QUESTION_TYPES[type]) {
+      addError('survey', record.row, `Unknown question type "${rawType}"`);
+    }
+
+    parent.children.push({ row: record.row, kind: 'question', type, typeArgument, name, ref, values: record.values, children: [] });
+  });
+
+  stack.slice(1).forEach((open) => {
+    addError('survey', open.row, `"begin ${open.kind}" for "${open.name}" has no matching "end ${open.kind}"`);
+  });
+
+  // ${name} references become absolute paths.
+  const expression = (node: SurveyNode, column: string, text = node.values[column] || ''): string =>
+    text.replace(/\$\{([^}]*)\}/g, (match, name: string) => {
+      const ref = refsByName.get(name.trim());
+      if (!ref) {
+        addError('survey', node.row, `${column}: unknown question "${match}"`);
+        return match;
+      }
+      return ref;
+    });
+
+  const labelXml = (node: SurveyNode, column: string, text: string): string =>
+    escapeXml(text).replace(/\$\{([^}]*)\}/g, (match, name: string) => {
+      const ref = refsByName.get(name.trim());
+      if (!ref) {
+        addError('survey', node.row, `${column}: unknown question "${match}"`);
+        return match;
+      }
+      return `<output value="${ref}"/>`;
+    });
+
+  const itext: Record<string, Array<[string, string]>> = {};
+  const itextIds = new Set<string>();
+  languages.forEach((language) => (itext[language] = []));
+  const addItext = (id: string, node: SurveyNode | null, values: Record<string, string>, column: string) => {
+    if (itextIds.has(id)) return;
+    itextIds.add(id);
+    languages.forEach((language) => {
+      const text = localized(values, column, language);
+      itext[language].push([id, node ? labelXml(node, `${column}::${language}`, text) : escapeXml(text)]);
+    });
+  };
+
+  const hasText = (values: Record<string, string>, column: string) =>
+    Object.keys(values).some((key) => key === column || key.startsWith(`${column}::`));
+
+  const lines: { instance: string[]; binds: string[]; body: string[] } = { instance: [], binds: [], body: [] };
+  const secondaryInstances = new Map<string, string>();
+  const indent = (depth: number) => '  '.repeat(depth);
+
+  const labelElement = (node: SurveyNode, column: 'label' | 'hint', depth: number, id = `${node.ref}:${column}`) => {
+    if (!hasText(node.values, column)) return;
+    if (languages.length > 0) {
+      addItext(id, node, node.values, column);
+      lines.body.push(`${indent(depth)}<${column} ref="jr:itext('${id}')"/>`);
+    } else {
+      lines.body.push(`${indent(depth)}<${column}>${labelXml(node, column, node.values[column])}</${column}>`);
+    }
+  };
+
+  const choiceInstance = (listName: string) => {
+    if (secondaryInstances.has(listName)) return;
+    const items = (choiceLists.get(listName) || []).map((choice, index) => {
+      const id = `${listName}-${index}`;
+      const columns = Object.entries(choice.values)
+        .filter(([column]) => !column.includes('::') && !['list_name', 'label', 'image', 'audio', 'video'].includes(column) && NAME_PATTERN.test(column))
+        .map(([column, value]) => `<${column}>${escapeXml(value)}</${column}>`);
+      if (languages.length > 0) {
+        addItext(id, null, choice.values, 'label');
+        columns.push(`<itextId>${id}</itextId>`);
+      } else {
+        columns.push(`<label>${escapeXml(choice.values.label || choice.values.name)}</label>`);
+      }
+      return `<item>${columns.join('')}</item>`;
+    });
+    secondaryInstances.set(listName, `<instance id="${escapeXml(listName)}"><root>${items.join('')}</root></instance>`);
+  };
+
+  const addBind = (node: SurveyNode, bindType?: string, extra: Array<[string, string]> = [], readonly = false) => {
+    const attributes: Array<[string, string]> = [['nodeset', node.ref]];
+    if (bindType) attributes.push(['type', bindType]);
+
+    const { required, relevant, constraint, calculation } = node.values;
+    if (relevant) attributes.push(['relevant', expression(node, 'relevant')]);
+    if (required && !isFalsy(required)) {
+      attributes.push(['required', isTruthy(required) ? 'true()' : expression(node, 'required')]);
+      const message = localized(node.values, 'required_message');
+      if (message) attributes.push(['jr:requiredMsg', message]);
+    }
+    if (constraint) {
+      attributes.push(['constraint', expression(node, 'constraint')]);
+      const message = localized(node.values, 'constraint_message');
+      if (message) attributes.push(['jr:constraintMsg', message]);
+    }
+    if (calculation) attributes.push(['calculate', expression(node, 'calculation')]);
+    if (readonly || isTruthy(node.values.read_only)) attributes.push(['readonly', 'true()']);
+    attributes.push(...extra);
+
+    if (attributes.length > 1) {
+      lines.binds.push(`<bind ${attributes.map(([name, value]) => `${name}="${escapeXml(value)}"`).join(' ')}/>`);
+    }
+  };
+
+  const writeNodes = (nodes: SurveyNode[], depth: number) => {
+    nodes.forEach((node) => {
+      const appearance = node.values.appearance ? ` appearance="${escapeXml(node.values.appearance)}"` : '';
+
+      if (node.kind === 'group' || node.kind === 'repeat') {
+        lines.instance.push(`${indent(depth + 3)}<${node.name}${node.kind === 'repeat' ? ' jr:template=""' : ''}>`);
+        addBind(node);
+        lines.body.push(`${indent(depth)}<group ref="${node.ref}"${appearance}>`);
+        labelElement(node, 'label', depth + 1);
+
+        if (node.kind === 'repeat') {
+          const count = node.values.repeat_count ? ` jr:count="${escapeXml(expression(node, 'repeat_count'))}"` : '';
+          lines.body.push(`${indent(depth + 1)}<repeat nodeset="${node.ref}"${count}>`);
+          writeNodes(node.children, depth + 2);
+          lines.body.push(`${indent(depth + 1)}</repeat>`);
+        } else {
+          writeNodes(node.children, depth + 1);
+        }
+
+        lines.body.push(`${indent(depth)}</group>`);
+        lines.instance.push(`${indent(depth + 3)}</${node.name}>`);
+        return;
+      }
+
+      const defaultValue = node.values.default ? escapeXml(node.values.default) : '';
+      lines.instance.push(`${indent(depth + 3)}<${node.name}>${defaultValue}</${node.name}>`);
+
+      const parameters = parseParameters(node.values.parameters);
+      const isSelect = SELECT_TYPES.includes(node.type) || SELECT_FROM_FILE_TYPES.includes(node.type);
+
+      if (isSelect) {
+        addBind(node, node.type === 'rank' ? 'odk:rank' : 'string');
+        const tag = node.type === 'rank' ? 'odk:rank' : node.type.startsWith('select_one') ? 'select1' : 'select';
+        lines.body.push(`${indent(depth)}<${tag} ref="${node.ref}"${appearance}>`);
+        labelElement(node, 'label', depth + 1);
+        labelElement(node, 'hint', depth + 1);
+
+        const filter = node.values.choice_filter ? `[${expression(node, 'choice_filter')}]` : '';
+        if (SELECT_FROM_FILE_TYPES.includes(node.type)) {
+          const fileName = node.typeArgument;
+          const instanceId = fileName.replace(/\.(csv|xml)$/i, '');
+          const isCsv = /\.csv$/i.test(fileName);
+          secondaryInstances.set(instanceId, `<instance id="${escapeXml(instanceId)}" src="jr://${isCsv ? 'file-csv' : 'file'}/${escapeXml(fileName)}"/>`);
+          lines.body.push(`${indent(depth + 1)}<itemset nodeset="${escapeXml(`instance('${instanceId}')/root/item${filter}`)}">`);
+          lines.body.push(`${indent(depth + 2)}<value ref="${escapeXml(parameters.value || 'name')}"/>`);
+          lines.body.push(`${indent(depth + 2)}<label ref="${escapeXml(parameters.label || 'label')}"/>`);
+          lines.body.push(`${indent(depth + 1)}</itemset>`);
+        } else if (filter) {
+          choiceInstance(node.typeArgument);
+          lines.body.push(`${indent(depth + 1)}<itemset nodeset="${escapeXml(`instance('${node.typeArgument}')/root/item${filter}`)}">`);
+          lines.body.push(`${indent(depth + 2)}<value ref="name"/>`);
+          lines.body.push(`${indent(depth + 2)}<label ref="${languages.length > 0 ? 'jr:itext(itextId)' : 'label'}"/>`);
+          lines.body.push(`${indent(depth + 1)}</itemset>`);
+        } else {
+          (choiceLists.get(node.typeArgument) || []).forEach((choice, index) => {
+            lines.body.push(`${indent(depth + 1)}<item>`);
+            if (languages.length > 0) {
+              const id = `${node.typeArgument}-${index}`;
+              addItext(id, null, choice.values, 'label');
+              lines.body.push(`${indent(depth + 2)}<label ref="jr:itext('${id}')"/>`);
+            } else {
+              lines.body.push(`${indent(depth + 2)}<label>${escapeXml(choice.values.label || choice.values.name)}</label>`);
+            }
+            lines.body.push(`${indent(depth + 2)}<value>${escapeXml(choice.values.name)}</value>`);
+            lines.body.push(`${indent(depth + 1)}</item>`);
+          });
+        }
+
+        lines.body.push(`${indent(depth)}</${tag}>`);
+        return;
+      }
+
+      const questionType = QUESTION_TYPES[node.type];
+      if (!questionType) return;
+
+      const extraBind: Array<[string, string]> = questionType.preload
+        ? [['jr:preload', questionType.preload[0]], ['jr:preloadParams', questionType.preload[1]]]
+        : [];
+      if (node.type === 'image' && parameters['max-pixels']) {
+        if (!Number.isInteger(Number(parameters['max-pixels']))) {
+          addError('survey', node.row, `max-pixels must be a whole number, got "${parameters['max-pixels']}"`);
+        }
+        extraBind.push(['orx:max-pixels', parameters['max-pixels']]);
+      }
+      const rangeIsDecimal = node.type === 'range'
+        && [parameters.start, parameters.end, parameters.step].some((value) => value && !Number.isInteger(Number(value)));
+      addBind(node, rangeIsDecimal ? 'decimal' : questionType.bindType, extraBind, questionType.readonly);
+
+      if (!questionType.control) return;
+
+      const attributes = [`ref="${node.ref}"`];
+      if (questionType.mediatype) attributes.push(`mediatype="${questionType.mediatype}"`);
+      if (node.type === 'range') {
+        const range = { start: parameters.start || '1', end: parameters.end || '10', step: parameters.step || '1' };
+        Object.entries(range).forEach(([key, value]) => {
+          if (isNaN(Number(value))) addError('survey', node.row, `Range parameter ${key} must be a number, got "${value}"`);
+          attributes.push(`${key}="${escapeXml(value)}"`);
+        });
+      }
+
+      lines.body.push(`${indent(depth)}<${questionType.control} ${attributes.join(' ')}${appearance}>`);
+      labelElement(node, 'label', depth + 1);
+      labelElement(node, 'hint', depth + 1);
+      lines.body.push(`${indent(depth)}</${questionType.control}>`);
+    });
+  };
+
+  writeNodes(rootNode.children, 2);
+
+  if (rootNode.children.length === 0 && errors.length === 0) {
+    addError('survey', null, 'The survey sheet has no questions');
+  }
+
+  if (errors.length > 0) {
+    const sheetOrder = ['settings', 'survey', 'choices'];
+    errors.sort((a, b) => sheetOrder.indexOf(a.sheet) - sheetOrder.indexOf(b.sheet) || (a.row ?? 0) - (b.row ?? 0));
+    return { xml: null, errors };
+  }
+
+  const itextXml = languages.length > 0
+    ? [
+        '      <itext>',
+        ...languages.map((language) => [
+          `        <translation lang="${escapeXml(language)}"${language === defaultLanguage ? ' default="true()"' : ''}>`,
+          ...itext[language].map(([id, text]) => `          <text id="${escapeXml(id)}"><value>${text}</value></text>`),
+          '        </translation>',
+        ].join('\n')),
+        '      </itext>',
+      ]
+    : [];
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<h:html xmlns="http://www.w3.org/2002/xforms" xmlns:h="http://www.w3.org/1999/xhtml" xmlns:ev="http://www.w3.org/2001/xml-events" xmlns:jr="http://openrosa.org/javarosa" xmlns:odk="http://www.opendatakit.org/xforms" xmlns:orx="http://openrosa.org/xforms" xmlns:xsd="http://www.w3.org/2001/XMLSchema">',
+    '  <h:head>',
+    `    <h:title>${escapeXml(title)}</h:title>`,
+    '    <model>',
+    ...itextXml,
+    '      <instance>',
+    `        <${rootName} id="${escapeXml(formId)}"${version ? ` version="${escapeXml(version)}"` : ''}>`,
+    ...lines.instance,
+    '          <meta>',
+    '            <instanceID/>',
+    '          </meta>',
+    `        </${rootName}>`,
+    '      </instance>',
+    ...Array.from(secondaryInstances.values()).map((instance) => `      ${instance}`),
+    ...lines.binds.map((bind) => `      ${bind}`),
+    `      <bind nodeset="${rootRef}/meta/instanceID" type="string" readonly="true()" calculate="concat('uuid:', uuid())"/>`,
+    '    </model>',
+    '  </h:head>',
+    '  <h:body>',
+    ...lines.body,
+    '  </h:body>',
+    '</h:html>',
+    '',
+  ].join('\n');
+
+  return { xml, errors: [] };
+}
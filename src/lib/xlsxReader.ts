@@ -0,0 +1,166 @@
+import { XMLParser } from 'fast-xml-parser';
+
+export interface SheetRow {
+  // 1-based row number as shown in the spreadsheet.
+  rowNumber: number;
+  cells: string[];
+}
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+// What fast-xml-parser gives for the workbook parts read below.
+type XmlText = string | { '#text'?: string } | undefined;
+
+interface XmlRichText {
+  t?: XmlText;
+  r?: Array<{ t?: XmlText }>;
+}
+
+interface XmlCell {
+  '@_r'?: string;
+  '@_t'?: string;
+  v?: XmlText;
+  is?: XmlRichText;
+}
+
+interface XmlRow {
+  '@_r'?: string;
+  c?: XmlCell[];
+}
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: false,
+  isArray: (name) => ['sheet', 'Relationship', 'si', 'r', 'row', 'c'].includes(name),
+});
+
+function readZipEntries(view: DataView): ZipEntry[] {
+  // The end of central directory record sits at the end of the file, followed
+  // only by an optional comment of at most 64 KB.
+  let end = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a valid .xlsx file');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Corrupt .xlsx file');
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      name: decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function readZipEntry(view: DataView, entry: ZipEntry): Promise<string> {
+  const header = entry.localHeaderOffset;
+  const dataStart = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + dataStart, entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error(`Unsupported compression in ${entry.name}`);
+
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return await new Response(stream).text();
+}
+
+function readCellText(value: XmlText): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return String(value['#text'] ?? '');
+  return String(value);
+}
+
+// Shared strings may be plain (<t>) or rich text split into runs (<r><t>).
+function readSharedString(item: XmlRichText): string {
+  if (item.t !== undefined) return readCellText(item.t);
+  return (item.r || []).map((run) => readCellText(run.t)).join('');
+}
+
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.replace(/[^A-Z]/gi, '').toUpperCase();
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// Reads every worksheet of an .xlsx workbook into rows of cell text, keyed by
+// sheet name. Empty rows are skipped; row numbers are kept for error reports.
+export async function readXlsxSheets(data: ArrayBuffer): Promise<Record<string, SheetRow[]>> {
+  const view = new DataView(data);
+  const entries = readZipEntries(view);
+  const read = async (name: string) => {
+    const entry = entries.find((e) => e.name === name);
+    return entry ? await readZipEntry(view, entry) : null;
+  };
+
+  const workbookXml = await read('xl/workbook.xml');
+  const relsXml = await read('xl/_rels/workbook.xml.rels');
+  if (!workbookXml || !relsXml) throw new Error('Not a valid .xlsx file: workbook is missing');
+
+  const sharedStringsXml = await read('xl/sharedStrings.xml');
+  const sharedStrings: string[] = sharedStringsXml
+    ? (xmlParser.parse(sharedStringsXml).sst?.si || []).map(readSharedString)
+    : [];
+
+  const relationships: Array<{ '@_Id': string; '@_Target': string }> =
+    xmlParser.parse(relsXml).Relationships?.Relationship || [];
+  const sheets: Array<{ '@_id': string; '@_name': string }> = xmlParser.parse(workbookXml).workbook?.sheets?.sheet || [];
+  const result: Record<string, SheetRow[]> = {};
+
+  for (const sheet of sheets) {
+    const target = relationships.find((rel) => rel['@_Id'] === sheet['@_id'])?.['@_Target'];
+    if (!target) continue;
+
+    const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    const sheetXml = await read(path);
+    if (!sheetXml) continue;
+
+    const rows: XmlRow[] = xmlParser.parse(sheetXml).worksheet?.sheetData?.row || [];
+    result[sheet['@_name']] = rows
+      .map((row, index): SheetRow => {
+        const cells: string[] = [];
+        (row.c || []).forEach((cell, cellIndex) => {
+          const column = cell['@_r'] ? columnIndex(cell['@_r']) : cellIndex;
+          const type = cell['@_t'];
+          let text: string;
+          if (type === 's') {
+            text = sharedStrings[Number(readCellText(cell.v))] ?? '';
+          } else if (type === 'inlineStr') {
+            text = readSharedString(cell.is || {});
+          } else if (type === 'b') {
+            text = readCellText(cell.v) === '1' ? 'TRUE' : 'FALSE';
+          } else {
+            text = readCellText(cell.v);
+          }
+          cells[column] = text.trim();
+        });
+        return { rowNumber: Number(row['@_r']) || index + 1, cells: Array.from(cells, (cell) => cell ?? '') };
+      })
+      .filter((row) => row.cells.some((cell) => cell !== ''));
+  }
+
+  return result;
+}
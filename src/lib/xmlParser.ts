@@ -1,12 +1,97 @@
 import { XMLParser } from 'fast-xml-parser';
 
+export interface FieldBind {
+  relevant?: string;
+  required?: string;
+  requiredMsg?: string;
+  constraint?: string;
+  constraintMsg?: string;
+  calculate?: string;
+  readonly?: string;
+  // orx:max-pixels: the longest side, in pixels, a photo is scaled down to.
+  maxPixels?: string;
+}
+
+export interface FormChoice {
+  value: string;
+  label: string;
+  labelRef?: string;
+}
+
+// Dynamic choice list: `nodeset` selects the items (predicates included) and
+// `value`/`label` are evaluated relative to each item. `label` may be a
+// jr:itext(...) reference to an itext id stored on the item.
+export interface FormItemset {
+  nodeset: string;
+  value: string;
+  label: string;
+}
+
+// Range questions: the slider's bounds and step.
+export interface FormRange {
+  start: number;
+  end: number;
+  step: number;
+}
+
 export interface FormField {
+  kind: 'field';
   name: string;
+  ref: string;
+  path: string;
   type: string;
   label: string;
+  // itext ids for labels and hints written as jr:itext('...'); resolved per
+  // language by translateForm.
+  labelRef?: string;
   required: boolean;
   hint?: string;
-  choices?: Array<{ value: string; label: string }>;
+  hintRef?: string;
+  choices?: FormChoice[];
+  itemset?: FormItemset;
+  range?: FormRange;
+  // An upload's accepted media, e.g. `image/*`; used to filter the file picker.
+  mediatype?: string;
+  children?: FormNode[];
+  bind: FieldBind;
+  // The control's appearance attribute, e.g. `minimal` or `field-list`.
+  appearance?: string;
+  // Calculated nodes that have no body control: evaluated and submitted, but
+  // never rendered.
+  hidden?: boolean;
+}
+
+export interface FormGroup {
+  kind: 'group';
+  ref: string | null;
+  path: string | null;
+  label: string;
+  labelRef?: string;
+  children: FormNode[];
+  bind: FieldBind;
+  appearance?: string;
+}
+
+export type FormNode = FormField | FormGroup;
+
+// Text for each itext id, per language.
+export type FormTranslations = Record<string, Record<string, string>>;
+
+// Secondary instance content, as used by itemsets and instance('id') paths.
+export interface InstanceNode {
+  name: string;
+  value: string;
+  attributes: Record<string, string>;
+  children: InstanceNode[];
+}
+
+// What the model declares, independent of the body; used to validate forms.
+export interface FormModel {
+  // Absolute refs of every element in the primary instance.
+  nodeRefs: string[];
+  binds: Array<{ ref: string; type: string | null; bind: FieldBind }>;
+  // Ids of all secondary instances, external ones included.
+  instanceIds: string[];
 }
 
 export interface ParsedForm {
@@ -14,130 +99,604 @@ export interface ParsedForm {
   title: string;
   version: string;
   fields: FormField[];
+  body: FormNode[];
+  languages: string[];
+  defaultLanguage: string | null;
+  // Language the labels are currently in; see translateForm.
+  language: string | null;
+  translations: FormTranslations;
+  // Keyed by instance id; each entry is the instance's root element.
+  secondaryInstances: Record<string, InstanceNode>;
+  // Media file names that external instances (jr://file/..., jr://file-csv/...)
+  // are loaded from.
+  externalInstanceFiles: string[];
+  model: FormModel;
+}
+
+// What fast-xml-parser gives with `preserveOrder`: one object per node, keyed
+// by its tag (holding its child nodes) or `#text`, with the attributes under `:@`.
+type OrderedNode = Record<string, unknown> & { ':@'?: Record<string, string> };
+
+interface XmlChild {
+  tag: string;
+  element: XmlElement;
+}
+
+// The shape fromOrdered folds that into. Tag and attribute values are not
+// parsed, so attributes and text are always strings.
+interface XmlElement {
+  '#order'?: XmlChild[];
+  '#text'?: string;
+  [key: string]: string | XmlElement | XmlElement[] | XmlChild[] | undefined;
+}
+
+function asArray<T>(value: T | T[] | undefined): T[] {
+  return Array.isArray(value) ? value : value ? [value] : [];
+}
+
+function childElements(element: XmlElement | undefined, tag: string): XmlElement[] {
+  return asArray(element?.[tag] as XmlElement | XmlElement[] | undefined);
+}
+
+function childElement(element: XmlElement | undefined, tag: string): XmlElement | undefined {
+  return childElements(element, tag)[0];
+}
+
+function attribute(element: XmlElement | undefined, name: string): string | undefined {
+  const value = element?.[`@_${name}`];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function readBind(binding: XmlElement | undefined): FieldBind {
+  if (!binding) return {};
+
+  const bind: FieldBind = {};
+  const attributes: Array<[keyof FieldBind, string]> = [
+    ['relevant', 'relevant'],
+    ['required', 'required'],
+    ['requiredMsg', 'requiredMsg'],
+    ['constraint', 'constraint'],
+    ['constraintMsg', 'constraintMsg'],
+    ['calculate', 'calculate'],
+    ['readonly', 'readonly'],
+    ['maxPixels', 'max-pixels'],
+  ];
+  attributes.forEach(([key, name]) => {
+    const value = attribute(binding, name);
+    if (value !== undefined && value !== '') {
+      bind[key] = value;
+    }
+  });
+  return bind;
+}
+
+function readText(value: XmlElement | undefined): string {
+  return value?.['#text'] ?? '';
 }
 
-export function parseXForm(xmlContent: string): ParsedForm {
+// fast-xml-parser only keeps sibling order with `preserveOrder`, whose output
+// is awkward to walk. This folds it back into the usual shape (children by tag
+// name, attributes as `@_name`, text as `#text`) and records the child
+// elements in document order under `#order`.
+function fromOrdered(nodes: OrderedNode[]): XmlElement {
+  const order: XmlChild[] = [];
+  const element: XmlElement = { '#order': order };
+
+  nodes.forEach((node) => {
+    const tag = Object.keys(node).find((key) => key !== ':@');
+    if (!tag) return;
+
+    if (tag === '#text') {
+      element['#text'] = `${element['#text'] ?? ''}${node['#text']}`;
+      return;
+    }
+
+    const child: XmlElement = { ...fromOrdered(node[tag] as OrderedNode[]), ...node[':@'] };
+    element[tag] = element[tag] === undefined ? child : [...childElements(element, tag), child];
+    order.push({ tag, element: child });
+  });
+
+  return element;
+}
+
+function toInstanceNode(name: string, element: XmlElement): InstanceNode {
+  const attributes: Record<string, string> = {};
+  Object.entries(element).forEach(([key, value]) => {
+    if (key.startsWith('@_') && typeof value === 'string') attributes[key.slice(2)] = value;
+  });
+
+  return {
+    name,
+    value: readText(element),
+    attributes,
+    children: (element['#order'] || []).map(({ tag, element: child }) => toInstanceNode(tag, child)),
+  };
+}
+
+function readItextRef(value: XmlElement | undefined): string | undefined {
+  return attribute(value, 'ref')?.match(/^\s*jr:itext\(\s*['"]([^'"]*)['"]\s*\)\s*$/)?.[1];
+}
+
+// Only the plain text form of each itext entry is kept; image, audio and video
+// forms are ignored.
+function readTranslations(itext: XmlElement | undefined): { languages: string[]; defaultLanguage: string | null; translations: FormTranslations } {
+  const translations: FormTranslations = {};
+  let defaultLanguage: string | null = null;
+
+  childElements(itext, 'translation').forEach((translation) => {
+    const language = attribute(translation, 'lang') ?? 'default';
+    const texts: Record<string, string> = {};
+
+    childElements(translation, 'text').forEach((text) => {
+      const id = attribute(text, 'id');
+      const value = childElements(text, 'value').find((v) => !attribute(v, 'form'));
+      if (id && value !== undefined) {
+        texts[id] = readText(value);
+      }
+    });
+
+    translations[language] = texts;
+    if (attribute(translation, 'default') !== undefined && defaultLanguage === null) {
+      defaultLanguage = language;
+    }
+  });
+
+  const languages = Object.keys(translations);
+  return { languages, defaultLanguage: defaultLanguage ?? languages[0] ?? null, translations };
+}
+
+function parseOrdered(xmlContent: string): XmlElement {
   const parser = new XMLParser({
     ignoreAttributes: false,
     attributeNamePrefix: '@_',
     removeNSPrefix: true,
+    preserveOrder: true,
+    parseTagValue: false,
   });
 
-  const result = parser.parse(xmlContent);
+  return fromOrdered(parser.parse(xmlContent) as OrderedNode[]);
+}
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
 
-  const h = result.html || result.h || result;
-  const head = h.head || {};
-  const body = h.body || {};
-  const model = head.model || {};
+// CSV instances follow the ODK layout: <root><item><column>value</column>...
+// with one item per row and the header row naming the columns.
+function csvToInstance(text: string): InstanceNode {
+  const [header = [], ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const columns = header.map((name) => name.trim());
 
-  const instances = Array.isArray(model.instance) ? model.instance : model.instance ? [model.instance] : [];
+  return {
+    name: 'root',
+    value: '',
+    attributes: {},
+    children: rows.map((row) => ({
+      name: 'item',
+      value: '',
+      attributes: {},
+      children: columns.map((column, index) => ({ name: column, value: row[index] ?? '', attributes: {}, children: [] })),
+    })),
+  };
+}
+
+function xmlToInstance(text: string): InstanceNode | null {
+  const rootEntry = (parseOrdered(text)['#order'] || []).find(({ tag }) => !tag.startsWith('?'));
+  return rootEntry ? toInstanceNode(rootEntry.tag, rootEntry.element) : null;
+}
+
+// `mediaFiles` holds the text of the form's CSV/XML media files by file name,
+// for external secondary instances.
+export function parseXForm(xmlContent: string, mediaFiles: Record<string, string> = {}): ParsedForm {
+  const result = parseOrdered(xmlContent);
+
+  const h = childElement(result, 'html') || childElement(result, 'h') || result;
+  const head = childElement(h, 'head');
+  const body = childElement(h, 'body') || {};
+  const model = childElement(head, 'model');
+
+  const instances = childElements(model, 'instance');
   const primaryInstance = instances[0] || {};
 
-  const data = primaryInstance.data || primaryInstance;
-  const formId = data['@_id'] || 'unknown';
-  const version = data['@_version'] || '1.0';
+  const rootName = Object.keys(primaryInstance).find(key => !key.startsWith('@_') && !['#text', '#order'].includes(key)) || 'data';
+  const data = childElement(primaryInstance, rootName) || primaryInstance;
+  const formId = attribute(data, 'id') || 'unknown';
+  const version = attribute(data, 'version') || '1.0';
+
+  const title = readText(childElement(head, 'title')) || 'Untitled Form';
+
+  const { languages, defaultLanguage, translations } = readTranslations(childElement(model, 'itext'));
+  const defaultTexts = defaultLanguage ? translations[defaultLanguage] : {};
+  const readLabel = (value: XmlElement | undefined): string => {
+    const itextRef = readItextRef(value);
+    return itextRef ? defaultTexts[itextRef] ?? '' : readText(value);
+  };
 
-  const title = head.title || 'Untitled Form';
+  const bindings = childElements(model, 'bind');
+  const rootRef = `/${rootName}`;
+  const findBinding = (ref: string | null) => (ref ? bindings.find((b) => attribute(b, 'nodeset') === ref) : undefined);
+  const boundRefs = new Set<string>();
+  const repeatFields: FormField[] = [];
 
-  const bindings = Array.isArray(model.bind) ? model.bind : model.bind ? [model.bind] : [];
-  const inputs = Array.isArray(body.input) ? body.input : body.input ? [body.input] : [];
-  const selects = Array.isArray(body.select1) ? body.select1 : body.select1 ? [body.select1] : [];
-  const textareas = Array.isArray(body.textarea) ? body.textarea : body.textarea ? [body.textarea] : [];
-  const uploads = Array.isArray(body.upload) ? body.upload : body.upload ? [body.upload] : [];
+  const resolveRef = (ref: string | undefined, parentRef: string): string | null => {
+    if (!ref) return null;
+    if (ref.startsWith('/')) return ref;
+    return `${parentRef}/${ref}`;
+  };
 
-  const fields: FormField[] = [];
+  // Paths are relative to the enclosing repeat (or the instance root), which is
+  // how values are keyed inside each repeat instance.
+  const toPath = (ref: string, baseRef: string): string => {
+    return ref.startsWith(`${baseRef}/`) ? ref.slice(baseRef.length + 1) : ref.replace(/^\//, '');
+  };
 
-  inputs.forEach((input: any) => {
-    const ref = input['@_ref'];
-    const name = ref?.split('/').pop() || '';
-    const binding = bindings.find((b: any) => b['@_nodeset'] === ref);
+  const buildField = (element: XmlElement, parentRef: string, baseRef: string, type?: string): FormField | null => {
+    const ref = resolveRef(attribute(element, 'ref'), parentRef);
+    if (!ref) return null;
 
-    fields.push({
+    const name = ref.split('/').pop() || '';
+    const binding = findBinding(ref);
+    boundRefs.add(ref);
+
+    return {
+      kind: 'field',
       name,
-      type: binding?.['@_type'] || 'string',
-      label: input.label || name,
-      required: binding?.['@_required'] === 'true()',
-      hint: input.hint,
-    });
-  });
+      ref,
+      path: toPath(ref, baseRef),
+      type: type || attribute(binding, 'type') || 'string',
+      label: readLabel(childElement(element, 'label')) || name,
+      labelRef: readItextRef(childElement(element, 'label')),
+      required: attribute(binding, 'required') === 'true()',
+      hint: childElement(element, 'hint') !== undefined ? readLabel(childElement(element, 'hint')) : undefined,
+      hintRef: readItextRef(childElement(element, 'hint')),
+      bind: readBind(binding),
+      appearance: attribute(element, 'appearance'),
+    };
+  };
 
-  selects.forEach((select: any) => {
-    const ref = select['@_ref'];
-    const name = ref?.split('/').pop() || '';
-    const binding = bindings.find((b: any) => b['@_nodeset'] === ref);
-
-    let items = Array.isArray(select.item) ? select.item : select.item ? [select.item] : [];
-
-    if (items.length === 0 && select.itemset) {
-      const instanceId = select.itemset['@_nodeset']?.match(/instance\('([^']+)'\)/)?.[1];
-      if (instanceId) {
-        const secondaryInstance = instances.find((inst: any) => inst['@_id'] === instanceId);
-        if (secondaryInstance?.root?.item) {
-          items = Array.isArray(secondaryInstance.root.item)
-            ? secondaryInstance.root.item
-            : [secondaryInstance.root.item];
-        }
-      }
-    }
+  const buildRepeat = (repeat: XmlElement, group: XmlElement | undefined, parentRef: string, baseRef: string): FormField | null => {
+    const ref = resolveRef(attribute(repeat, 'nodeset'), parentRef);
+    if (!ref) return null;
 
-    fields.push({
+    const name = ref.split('/').pop() || '';
+    boundRefs.add(ref);
+
+    const repeatField: FormField = {
+      kind: 'field',
       name,
-      type: 'select_one',
-      label: select.label || name,
-      required: binding?.['@_required'] === 'true()',
-      choices: items.map((item: any) => ({
-        value: item.name || item.value || '',
-        label: item.label || item.name || item.value || '',
-      })),
-    });
-  });
+      ref,
+      path: toPath(ref, baseRef),
+      type: 'repeat',
+      label: readLabel(childElement(group, 'label')) || readLabel(childElement(repeat, 'label')) || name,
+      labelRef: readItextRef(childElement(group, 'label')) ?? readItextRef(childElement(repeat, 'label')),
+      required: false,
+      children: walkBody(repeat, ref, ref),
+      bind: readBind(findBinding(ref)),
+      appearance: attribute(repeat, 'appearance') ?? attribute(group, 'appearance'),
+    };
+    repeatFields.push(repeatField);
+    return repeatField;
+  };
+
+  const secondaryInstances: Record<string, InstanceNode> = {};
+  const externalInstanceFiles: string[] = [];
+  instances.slice(1).forEach((instance) => {
+    const id = attribute(instance, 'id');
+    if (!id) return;
 
-  uploads.forEach((upload: any) => {
-    const ref = upload['@_ref'];
-    const name = ref?.split('/').pop() || '';
-    const binding = bindings.find((b: any) => b['@_nodeset'] === ref);
-    const mediatype = upload['@_mediatype'] || '';
-
-    let fieldType = 'binary';
-    if (mediatype.includes('image')) {
-      fieldType = 'image';
-    } else if (mediatype.includes('audio')) {
-      fieldType = 'audio';
-    } else if (mediatype.includes('video')) {
-      fieldType = 'video';
+    const src = attribute(instance, 'src');
+    if (src) {
+      const fileName = src.replace(/^jr:\/\/file(-csv)?\//, '');
+      externalInstanceFiles.push(fileName);
+
+      const text = mediaFiles[fileName];
+      const root = text === undefined ? null : /\.csv$/i.test(fileName) ? csvToInstance(text) : xmlToInstance(text);
+      if (root) secondaryInstances[id] = root;
+      return;
     }
 
-    fields.push({
-      name,
-      type: fieldType,
-      label: upload.label || name,
-      required: binding?.['@_required'] === 'true()',
-      hint: upload.hint,
-    });
+    const rootEntry = instance['#order']?.[0];
+    if (rootEntry) {
+      secondaryInstances[id] = toInstanceNode(rootEntry.tag, rootEntry.element);
+    }
   });
 
-  textareas.forEach((textarea: any) => {
-    const ref = textarea['@_ref'];
-    const name = ref?.split('/').pop() || '';
-    const binding = bindings.find((b: any) => b['@_nodeset'] === ref);
+  const readItemset = (itemset: XmlElement): FormItemset | undefined => {
+    const nodeset = attribute(itemset, 'nodeset');
+    if (!nodeset) return undefined;
+    return {
+      nodeset,
+      value: attribute(childElement(itemset, 'value'), 'ref') || 'name',
+      label: attribute(childElement(itemset, 'label'), 'ref') || 'label',
+    };
+  };
+
+  // Itemset choices are listed statically too (every item, predicates ignored)
+  // so Teable select columns get the full set of options.
+  const readItemsetChoices = (itemset: FormItemset): FormChoice[] => {
+    const [, instanceId, itemPath] = itemset.nodeset.match(/^\s*instance\(\s*['"]([^'"]+)['"]\s*\)\/(.*)$/) || [];
+    const instance = instanceId ? secondaryInstances[instanceId] : undefined;
+    if (!instance || !itemPath) return [];
 
-    fields.push({
-      name,
-      type: 'text',
-      label: textarea.label || name,
-      required: binding?.['@_required'] === 'true()',
-      hint: textarea.hint,
+    const [rootStep, ...steps] = itemPath.replace(/\[[^\]]*\]/g, '').split('/').map((step) => step.trim());
+    if (rootStep !== instance.name) return [];
+
+    const items = steps.reduce(
+      (nodes: InstanceNode[], step) => nodes.flatMap((node) => node.children.filter((child) => child.name === step)),
+      [instance]
+    );
+    const childValue = (item: InstanceNode, name: string) =>
+      name.startsWith('@')
+        ? item.attributes[name.slice(1)] ?? ''
+        : item.children.find((child) => child.name === name)?.value ?? '';
+    // Itemsets point at the itext id through a child of each item, e.g.
+    // <label ref="jr:itext(itextId)"/>.
+    const itextChild = itemset.label.match(/^\s*jr:itext\(\s*([\w.-]+)\s*\)\s*$/)?.[1];
+
+    return items.map((item) => {
+      const value = childValue(item, itemset.value);
+      const labelRef = itextChild ? childValue(item, itextChild) || undefined : undefined;
+      const label = labelRef ? defaultTexts[labelRef] : childValue(item, itemset.label);
+      return { value, label: label || value, labelRef };
+    });
+  };
+
+  const readChoices = (select: XmlElement, itemset?: FormItemset): FormChoice[] => {
+    if (itemset) return readItemsetChoices(itemset);
+
+    return childElements(select, 'item').map((item) => {
+      const value = readText(childElement(item, 'value') ?? childElement(item, 'name'));
+      const labelRef = readItextRef(childElement(item, 'label'));
+      const label = labelRef ? defaultTexts[labelRef] : readText(childElement(item, 'label'));
+      return { value, label: label || value, labelRef };
     });
+  };
+
+  // Read-only string inputs are how XLSForm notes come through.
+  const isNote = (ref: string | null): boolean => {
+    const binding = findBinding(ref);
+    return attribute(binding, 'readonly') === 'true()' && (attribute(binding, 'type') ?? 'string') === 'string';
+  };
+
+  const readUploadType = (upload: XmlElement): string => {
+    const mediatype = attribute(upload, 'mediatype') || '';
+
+    if (mediatype.includes('image')) return 'image';
+    if (mediatype.includes('audio')) return 'audio';
+    if (mediatype.includes('video')) return 'video';
+    return 'binary';
+  };
+
+  // Controls are emitted in document order, so the collect screen follows the
+  // form design.
+  const walkBody = (container: XmlElement, parentRef: string, baseRef: string): FormNode[] => {
+    const nodes: FormNode[] = [];
+
+    (container['#order'] || []).forEach(({ tag, element }) => {
+      switch (tag) {
+        case 'input': {
+          const ref = resolveRef(attribute(element, 'ref'), parentRef);
+          const field = buildField(element, parentRef, baseRef, isNote(ref) ? 'note' : undefined);
+          if (field) nodes.push(field);
+          break;
+        }
+
+        case 'select1':
+        case 'select':
+        case 'rank': {
+          const type = tag === 'select1' ? 'select_one' : tag === 'rank' ? 'rank' : 'select_multiple';
+          const field = buildField(element, parentRef, baseRef, type);
+          if (!field) break;
+          const itemset = childElement(element, 'itemset');
+          field.itemset = itemset ? readItemset(itemset) : undefined;
+          field.choices = readChoices(element, field.itemset);
+          nodes.push(field);
+          break;
+        }
+
+        case 'upload': {
+          const field = buildField(element, parentRef, baseRef, readUploadType(element));
+          if (!field) break;
+          const mediatype = attribute(element, 'mediatype');
+          if (mediatype) field.mediatype = mediatype;
+          nodes.push(field);
+          break;
+        }
+
+        // Range values keep the bind's int/decimal type; the field type only
+        // picks the widget and the Teable column.
+        case 'range': {
+          const field = buildField(element, parentRef, baseRef, 'range');
+          if (!field) break;
+          const readNumber = (value: unknown, fallback: number) => (value === undefined || isNaN(Number(value)) ? fallback : Number(value));
+          field.range = {
+            start: readNumber(attribute(element, 'start'), 1),
+            end: readNumber(attribute(element, 'end'), 10),
+            step: readNumber(attribute(element, 'step'), 1),
+          };
+          nodes.push(field);
+          break;
+        }
+
+        case 'textarea': {
+          const field = buildField(element, parentRef, baseRef, 'text');
+          if (field) nodes.push(field);
+          break;
+        }
+
+        case 'trigger': {
+          const field = buildField(element, parentRef, baseRef, 'trigger');
+          if (field) nodes.push(field);
+          break;
+        }
+
+        case 'group': {
+          const ref = resolveRef(attribute(element, 'ref'), parentRef);
+          const repeats = childElements(element, 'repeat');
+          if (ref) boundRefs.add(ref);
+
+          // pyxform wraps each repeat in a group with the same ref that only
+          // carries the label; fold the two into a single repeat field.
+          if (ref && repeats.length === 1 && resolveRef(attribute(repeats[0], 'nodeset'), parentRef) === ref) {
+            const repeatField = buildRepeat(repeats[0], element, parentRef, baseRef);
+            if (repeatField) nodes.push(repeatField);
+            break;
+          }
+
+          nodes.push({
+            kind: 'group',
+            ref,
+            path: ref ? toPath(ref, baseRef) : null,
+            label: readLabel(childElement(element, 'label')),
+            labelRef: readItextRef(childElement(element, 'label')),
+            children: walkBody(element, ref || parentRef, baseRef),
+            bind: readBind(findBinding(ref)),
+            appearance: attribute(element, 'appearance'),
+          });
+          break;
+        }
+
+        case 'repeat': {
+          const repeatField = buildRepeat(element, undefined, parentRef, baseRef);
+          if (repeatField) nodes.push(repeatField);
+          break;
+        }
+      }
+    });
+
+    return nodes;
+  };
+
+  const formBody = walkBody(body, rootRef, rootRef);
+
+  bindings.forEach((binding) => {
+    const ref = attribute(binding, 'nodeset');
+    if (!ref || boundRefs.has(ref) || attribute(binding, 'calculate') === undefined) return;
+
+    const repeat = repeatFields
+      .filter((r) => ref.startsWith(`${r.ref}/`))
+      .sort((a, b) => b.ref.length - a.ref.length)[0];
+    const name = ref.split('/').pop() || '';
+    const field: FormField = {
+      kind: 'field',
+      name,
+      ref,
+      path: toPath(ref, repeat?.ref || rootRef),
+      type: attribute(binding, 'type') || 'string',
+      label: name,
+      required: false,
+      bind: readBind(binding),
+      hidden: true,
+    };
+
+    if (repeat) {
+      repeat.children!.push(field);
+    } else {
+      formBody.push(field);
+    }
   });
 
   return {
     formId,
     title,
     version,
-    fields,
+    fields: flattenFields(formBody),
+    body: formBody,
+    languages,
+    defaultLanguage,
+    language: defaultLanguage,
+    translations,
+    secondaryInstances,
+    externalInstanceFiles,
+    model: {
+      nodeRefs: collectNodeRefs(rootRef, data),
+      binds: bindings.flatMap((binding) => {
+        const ref = attribute(binding, 'nodeset');
+        return ref ? [{ ref, type: attribute(binding, 'type') ?? null, bind: readBind(binding) }] : [];
+      }),
+      instanceIds: instances.slice(1).flatMap((instance) => attribute(instance, 'id') || []),
+    },
   };
 }
 
+function collectNodeRefs(ref: string, element: XmlElement): string[] {
+  return [
+    ref,
+    ...(element['#order'] || []).flatMap(({ tag, element: child }) => collectNodeRefs(`${ref}/${tag}`, child)),
+  ];
+}
+
+// Returns a copy of the form with labels, hints and choice labels in the given
+// language, falling back to the default language's text when a translation is
+// missing.
+export function translateForm(form: ParsedForm, language: string): ParsedForm {
+  const texts = form.translations[language];
+  if (!texts || language === form.defaultLanguage) return form;
+
+  const translate = (ref: string | undefined, fallback: string): string => (ref && texts[ref]) || fallback;
+
+  const translateNodes = (nodes: FormNode[]): FormNode[] =>
+    nodes.map((node) => {
+      if (node.kind === 'group') {
+        return { ...node, label: translate(node.labelRef, node.label), children: translateNodes(node.children) };
+      }
+      return {
+        ...node,
+        label: translate(node.labelRef, node.label),
+        hint: node.hint !== undefined ? translate(node.hintRef, node.hint) : undefined,
+        choices: node.choices?.map((choice) => ({ ...choice, label: translate(choice.labelRef, choice.label) })),
+        children: node.children ? translateNodes(node.children) : undefined,
+      };
+    });
+
+  const body = translateNodes(form.body);
+  return { ...form, body, fields: flattenFields(body), language };
+}
+
+// Repeat fields are returned as-is: their children are keyed relative to each
+// repeat instance and are flattened separately from `field.children`.
+export function flattenFields(nodes: FormNode[]): FormField[] {
+  return nodes.flatMap((node) => (node.kind === 'group' ? flattenFields(node.children) : [node]));
+}
+
 export function mapODKTypeToTeable(odkType: string): string {
   const typeMap: Record<string, string> = {
     'string': 'singleLineText',
@@ -146,11 +705,19 @@ export function mapODKTypeToTeable(odkType: string): string {
     'decimal': 'number',
     'date': 'date',
     'time': 'singleLineText',
-    'dateTime': 'date',
+    'datetime': 'date',
+    'range': 'number',
+    'rank': 'singleLineText',
+    'trigger': 'singleLineText',
     'geopoint': 'singleLineText',
     'geotrace': 'longText',
     'geoshape': 'longText',
-    'binary': 'attachment',
+    // Uploads are stored as attachments in Supabase; Teable gets the file name
+    // the submission holds.
+    'image': 'singleLineText',
+    'audio': 'singleLineText',
+    'video': 'singleLineText',
+    'binary': 'singleLineText',
     'select': 'singleSelect',
     'select_one': 'singleSelect',
     'select1': 'singleSelect',
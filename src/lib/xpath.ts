@@ -0,0 +1,926 @@
+export interface XPathNode {
+  name: string;
+  value: string;
+  children: XPathNode[];
+  attributes: Record<string, string>;
+  parent: XPathNode | null;
+}
+
+export type XPathValue = string | number | boolean | XPathNode[];
+
+export type XPathFunction = (args: XPathValue[], context: XPathContext) => XPathValue;
+
+export interface XPathContext {
+  node: XPathNode;
+  position: number;
+  size: number;
+  // Document node of the primary instance; absolute paths always start here,
+  // even inside predicates evaluated against a secondary instance.
+  root: XPathNode;
+  // The node the whole expression is evaluated for; `current()` returns it and
+  // absolute paths into repeats are narrowed to the instance that contains it.
+  current: XPathNode;
+  instances: Record<string, XPathNode>;
+  functions?: Record<string, XPathFunction>;
+}
+
+type Step = {
+  axis: string;
+  test: string;
+  predicates: Expr[];
+};
+
+type Expr =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'path'; absolute: boolean; steps: Step[]; filter?: Expr }
+  | { type: 'filter'; expr: Expr; predicates: Expr[] }
+  | { type: 'binary'; op: string; left: Expr; right: Expr }
+  | { type: 'negate'; expr: Expr }
+  | { type: 'call'; name: string; args: Expr[] };
+
+type Token = { type: 'number' | 'string' | 'name' | 'op' | 'eof'; value: string };
+
+const NODE_TYPES = ['node', 'text', 'comment', 'processing-instruction'];
+const OPERATOR_NAMES = ['and', 'or', 'div', 'mod'];
+
+export function createNode(name: string, parent: XPathNode | null, value = ''): XPathNode {
+  const node: XPathNode = { name, value, children: [], attributes: {}, parent };
+  if (parent) parent.children.push(node);
+  return node;
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // Per XPath 1.0 §3.7, `*` and the operator names are only operators when
+  // the previous token ends an operand. Multiplication is emitted as `mul`.
+  const precedingOperand = () => {
+    const prev = tokens[tokens.length - 1];
+    if (!prev) return false;
+    return prev.type !== 'op' || [')', ']', '.', '..', '*'].includes(prev.value);
+  };
+
+  while (i < expression.length) {
+    const ch = expression[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const end = expression.indexOf(ch, i + 1);
+      if (end === -1) throw new Error(`Unterminated string literal in "${expression}"`);
+      tokens.push({ type: 'string', value: expression.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(expression[i + 1] || ''))) {
+      const match = expression.slice(i).match(/^[0-9]*\.?[0-9]*/)!;
+      tokens.push({ type: 'number', value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+
+    const two = expression.slice(i, i + 2);
+    if (['//', '..', '::', '!=', '<=', '>='].includes(two)) {
+      tokens.push({ type: 'op', value: two });
+      i += 2;
+      continue;
+    }
+
+    if (ch === '*') {
+      tokens.push({ type: 'op', value: precedingOperand() ? 'mul' : '*' });
+      i++;
+      continue;
+    }
+
+    if ('/()[].@,|+-=<>$'.includes(ch)) {
+      tokens.push({ type: 'op', value: ch });
+      i++;
+      continue;
+    }
+
+    const nameMatch = expression.slice(i).match(/^[A-Za-z_][\w.-]*(?::(?!:)(?:[A-Za-z_][\w.-]*|\*))?/);
+    if (nameMatch) {
+      const isOperator = OPERATOR_NAMES.includes(nameMatch[0]) && precedingOperand();
+      tokens.push({ type: isOperator ? 'op' : 'name', value: nameMatch[0] });
+      i += nameMatch[0].length;
+      continue;
+    }
+
+    throw new Error(`Unexpected character "${ch}" in "${expression}"`);
+  }
+
+  tokens.push({ type: 'eof', value: '' });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private source: string) {}
+
+  parse(): Expr {
+    const expr = this.parseOr();
+    if (this.peek().type !== 'eof') {
+      this.fail(`unexpected "${this.peek().value}"`);
+    }
+    return expr;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOp(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'op' && token.value === value;
+  }
+
+  private expect(value: string) {
+    if (!this.isOp(value)) this.fail(`expected "${value}"`);
+    this.index++;
+  }
+
+  private fail(message: string): never {
+    throw new Error(`Invalid XPath "${this.source}": ${message}`);
+  }
+
+  private parseBinary(ops: string[], operand: () => Expr): Expr {
+    let left = operand();
+    while (this.peek().type === 'op' && ops.includes(this.peek().value)) {
+      const op = this.next().value;
+      left = { type: 'binary', op, left, right: operand() };
+    }
+    return left;
+  }
+
+  private parseOr(): Expr {
+    return this.parseBinary(['or'], () => this.parseAnd());
+  }
+
+  private parseAnd(): Expr {
+    return this.parseBinary(['and'], () => this.parseEquality());
+  }
+
+  private parseEquality(): Expr {
+    return this.parseBinary(['=', '!='], () => this.parseRelational());
+  }
+
+  private parseRelational(): Expr {
+    return this.parseBinary(['<', '>', '<=', '>='], () => this.parseAdditive());
+  }
+
+  private parseAdditive(): Expr {
+    return this.parseBinary(['+', '-'], () => this.parseMultiplicative());
+  }
+
+  private parseMultiplicative(): Expr {
+    return this.parseBinary(['mul', 'div', 'mod'], () => this.parseUnary());
+  }
+
+  private parseUnary(): Expr {
+    if (this.isOp('-')) {
+      this.next();
+      return { type: 'negate', expr: this.parseUnary() };
+    }
+    return this.parseUnion();
+  }
+
+  private parseUnion(): Expr {
+    return this.parseBinary(['|'], () => this.parsePath());
+  }
+
+  private startsLocationPath(): boolean {
+    const token = this.peek();
+    if (token.type === 'op') return ['/', '//', '.', '..', '@', '*'].includes(token.value);
+    if (token.type !== 'name') return false;
+    if (this.isOp('::', 1)) return true;
+    if (this.isOp('(', 1)) return NODE_TYPES.includes(token.value);
+    return true;
+  }
+
+  private parsePath(): Expr {
+    if (this.startsLocationPath()) {
+      return this.parseLocationPath();
+    }
+
+    let expr = this.parsePrimary();
+    const predicates = this.parsePredicates();
+    if (predicates.length > 0) {
+      expr = { type: 'filter', expr, predicates };
+    }
+
+    if (this.isOp('/') || this.isOp('//')) {
+      const steps: Step[] = [];
+      if (this.next().value === '//') steps.push(descendantOrSelf());
+      steps.push(...this.parseRelativeSteps());
+      return { type: 'path', absolute: false, steps, filter: expr };
+    }
+
+    return expr;
+  }
+
+  private parseLocationPath(): Expr {
+    if (this.isOp('/')) {
+      this.next();
+      const steps = this.startsLocationPath() ? this.parseRelativeSteps() : [];
+      return { type: 'path', absolute: true, steps };
+    }
+    if (this.isOp('//')) {
+      this.next();
+      return { type: 'path', absolute: true, steps: [descendantOrSelf(), ...this.parseRelativeSteps()] };
+    }
+    return { type: 'path', absolute: false, steps: this.parseRelativeSteps() };
+  }
+
+  private parseRelativeSteps(): Step[] {
+    const steps = [this.parseStep()];
+    while (this.isOp('/') || this.isOp('//')) {
+      if (this.next().value === '//') steps.push(descendantOrSelf());
+      steps.push(this.parseStep());
+    }
+    return steps;
+  }
+
+  private parseStep(): Step {
+    if (this.isOp('.')) {
+      this.next();
+      return { axis: 'self', test: 'node()', predicates: [] };
+    }
+    if (this.isOp('..')) {
+      this.next();
+      return { axis: 'parent', test: 'node()', predicates: [] };
+    }
+
+    let axis = 'child';
+    if (this.isOp('@')) {
+      this.next();
+      axis = 'attribute';
+    } else if (this.peek().type === 'name' && this.isOp('::', 1)) {
+      axis = this.next().value;
+      this.next();
+    }
+
+    let test: string;
+    const token = this.next();
+    if (token.type === 'op' && token.value === '*') {
+      test = '*';
+    } else if (token.type === 'name') {
+      test = token.value;
+      if (NODE_TYPES.includes(token.value) && this.isOp('(')) {
+        this.next();
+        this.expect(')');
+        test = `${token.value}()`;
+      }
+    } else {
+      this.fail(`expected a node test but found "${token.value}"`);
+    }
+
+    return { axis, test, predicates: this.parsePredicates() };
+  }
+
+  private parsePredicates(): Expr[] {
+    const predicates: Expr[] = [];
+    while (this.isOp('[')) {
+      this.next();
+      predicates.push(this.parseOr());
+      this.expect(']');
+    }
+    return predicates;
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.next();
+
+    if (token.type === 'number') return { type: 'number', value: parseFloat(token.value) };
+    if (token.type === 'string') return { type: 'string', value: token.value };
+
+    if (token.type === 'op' && token.value === '(') {
+      const expr = this.parseOr();
+      this.expect(')');
+      return expr;
+    }
+
+    if (token.type === 'op' && token.value === '$') {
+      this.fail('variable references are not supported');
+    }
+
+    if (token.type === 'name' && this.isOp('(')) {
+      this.next();
+      const args: Expr[] = [];
+      if (!this.isOp(')')) {
+        args.push(this.parseOr());
+        while (this.isOp(',')) {
+          this.next();
+          args.push(this.parseOr());
+        }
+      }
+      this.expect(')');
+      return { type: 'call', name: token.value, args };
+    }
+
+    this.fail(`unexpected "${token.value || 'end of expression'}"`);
+  }
+}
+
+function descendantOrSelf(): Step {
+  return { axis: 'descendant-or-self', test: 'node()', predicates: [] };
+}
+
+const parseCache = new Map<string, Expr>();
+
+export function parseXPath(expression: string): Expr {
+  let expr = parseCache.get(expression);
+  if (!expr) {
+    expr = new Parser(tokenize(expression), expression).parse();
+    parseCache.set(expression, expr);
+  }
+  return expr;
+}
+
+// True when the expression reads any node (paths, current(), etc.); used to
+// decide whether a calculation has to be re-run when answers change.
+export function referencesNodes(expression: string): boolean {
+  const visit = (expr: Expr): boolean => {
+    switch (expr.type) {
+      case 'path':
+        return true;
+      case 'filter':
+        return visit(expr.expr) || expr.predicates.some(visit);
+      case 'binary':
+        return visit(expr.left) || visit(expr.right);
+      case 'negate':
+        return visit(expr.expr);
+      case 'call':
+        return ['current', 'position', 'last'].includes(expr.name) || expr.args.some(visit);
+      default:
+        return false;
+    }
+  };
+  return visit(parseXPath(expression));
+}
+
+export function evaluateXPath(expression: string, context: XPathContext): XPathValue {
+  return evaluate(parseXPath(expression), context);
+}
+
+export function stringValue(node: XPathNode): string {
+  if (node.children.length === 0) return node.value;
+  return node.children.map(stringValue).join('');
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(value: string): Date | null {
+  if (!DATE_PATTERN.test(value)) return null;
+  const date = value.length === 10 ? new Date(`${value}T00:00:00`) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Dates are days since the epoch, as in JavaRosa, so `. <= today()` works.
+function dateToDays(date: Date): number {
+  const utc = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  const dayFraction = (date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds()) / 86400;
+  return utc / DAY_MS + dayFraction;
+}
+
+function daysToDate(days: number): Date {
+  const whole = Math.floor(days);
+  const base = new Date(whole * DAY_MS);
+  const date = new Date(base.getUTCFullYear(), base.getUTCMonth(), base.getUTCDate());
+  date.setTime(date.getTime() + Math.round((days - whole) * DAY_MS));
+  return date;
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+export function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function formatDateTime(date: Date): string {
+  const offset = -date.getTimezoneOffset();
+  const sign = offset >= 0 ? '+' : '-';
+  const zone = `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+  return `${formatDate(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}${zone}`;
+}
+
+export function toXPathString(value: XPathValue): string {
+  if (Array.isArray(value)) return value.length > 0 ? stringValue(value[0]) : '';
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (typeof value === 'number') {
+    if (isNaN(value)) return 'NaN';
+    if (!isFinite(value)) return value > 0 ? 'Infinity' : '-Infinity';
+    return String(value);
+  }
+  return value;
+}
+
+export function toXPathNumber(value: XPathValue): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const text = toXPathString(value).trim();
+  if (text === '') return NaN;
+  const date = parseDate(text);
+  if (date) return dateToDays(date);
+  return /^-?(\d+\.?\d*|\.\d+)$/.test(text) ? parseFloat(text) : NaN;
+}
+
+export function toXPathBoolean(value: XPathValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'number') return value !== 0 && !isNaN(value);
+  if (typeof value === 'string') return value.length > 0;
+  return value;
+}
+
+function toNodeSet(value: XPathValue, name: string): XPathNode[] {
+  if (!Array.isArray(value)) throw new Error(`${name}() expects a node-set`);
+  return value;
+}
+
+function documentPosition(node: XPathNode): number[] {
+  const position: number[] = [];
+  let current: XPathNode | null = node;
+  while (current?.parent) {
+    const index = current.parent.children.indexOf(current);
+    position.unshift(index === -1 ? -1 : index);
+    current = current.parent;
+  }
+  return position;
+}
+
+function sortDocumentOrder(nodes: XPathNode[]): XPathNode[] {
+  const unique = Array.from(new Set(nodes));
+  if (unique.length < 2) return unique;
+  const positions = new Map(unique.map((node) => [node, documentPosition(node)]));
+  return unique.sort((a, b) => {
+    const pa = positions.get(a)!;
+    const pb = positions.get(b)!;
+    for (let i = 0; i < Math.min(pa.length, pb.length); i++) {
+      if (pa[i] !== pb[i]) return pa[i] - pb[i];
+    }
+    return pa.length - pb.length;
+  });
+}
+
+function localName(name: string): string {
+  const index = name.indexOf(':');
+  return index === -1 ? name : name.slice(index + 1);
+}
+
+function descendants(node: XPathNode): XPathNode[] {
+  return node.children.flatMap((child) => [child, ...descendants(child)]);
+}
+
+function ancestors(node: XPathNode): XPathNode[] {
+  const result: XPathNode[] = [];
+  let current = node.parent;
+  while (current) {
+    result.push(current);
+    current = current.parent;
+  }
+  return result;
+}
+
+// Nodes on an axis, in proximity order (reverse axes list the nearest first).
+function axisNodes(node: XPathNode, axis: string): XPathNode[] {
+  switch (axis) {
+    case 'child':
+      return node.children;
+    case 'self':
+      return [node];
+    case 'parent':
+      return node.parent ? [node.parent] : [];
+    case 'descendant':
+      return descendants(node);
+    case 'descendant-or-self':
+      return [node, ...descendants(node)];
+    case 'ancestor':
+      return ancestors(node);
+    case 'ancestor-or-self':
+      return [node, ...ancestors(node)];
+    case 'following-sibling':
+      return node.parent ? node.parent.children.slice(node.parent.children.indexOf(node) + 1) : [];
+    case 'preceding-sibling':
+      return node.parent ? node.parent.children.slice(0, node.parent.children.indexOf(node)).reverse() : [];
+    case 'attribute':
+      return Object.entries(node.attributes).map(([name, value]) => ({
+        name,
+        value,
+        children: [],
+        attributes: {},
+        parent: node,
+      }));
+    default:
+      throw new Error(`Unsupported XPath axis "${axis}"`);
+  }
+}
+
+function matchesTest(node: XPathNode, test: string): boolean {
+  if (test === 'node()') return true;
+  if (test === 'text()') return false;
+  if (test === '*') return true;
+  if (test.endsWith(':*')) return node.name.startsWith(test.slice(0, -1));
+  return localName(node.name) === localName(test);
+}
+
+function applyPredicates(nodes: XPathNode[], predicates: Expr[], context: XPathContext): XPathNode[] {
+  return predicates.reduce((current, predicate) => {
+    return current.filter((node, index) => {
+      const result = evaluate(predicate, { ...context, node, position: index + 1, size: current.length });
+      return typeof result === 'number' ? result === index + 1 : toXPathBoolean(result);
+    });
+  }, nodes);
+}
+
+function evaluateSteps(start: XPathNode[], steps: Step[], context: XPathContext): XPathNode[] {
+  let nodes = start;
+  const hasExplicitIndex = steps.some((step) => step.predicates.length > 0);
+
+  steps.forEach((step, stepIndex) => {
+    const next: XPathNode[] = [];
+    for (const node of nodes) {
+      const matches = axisNodes(node, step.axis).filter((candidate) => matchesTest(candidate, step.test));
+      next.push(...applyPredicates(matches, step.predicates, context));
+    }
+    nodes = sortDocumentOrder(next);
+
+    // A path that walks through a repeat stays inside the repeat instance the
+    // expression is evaluated for, like JavaRosa's contextualised references.
+    // The last step is left alone so `count(/data/repeat)` still sees them all,
+    // and paths that pick instances themselves (`repeat[2]`) are not narrowed.
+    const isLastStep = stepIndex === steps.length - 1;
+    if (!isLastStep && !hasExplicitIndex && nodes.length > 1) {
+      const own = nodes.find((candidate) => candidate === context.current || ancestors(context.current).includes(candidate));
+      if (own) nodes = [own];
+    }
+  });
+
+  return nodes;
+}
+
+function compare(op: string, left: XPathValue, right: XPathValue): boolean {
+  if (Array.isArray(left) || Array.isArray(right)) {
+    const leftValues = Array.isArray(left) ? left.map(stringValue) : [left];
+    const rightValues = Array.isArray(right) ? right.map(stringValue) : [right];
+    if (typeof left === 'boolean' || typeof right === 'boolean') {
+      return compareAtomic(op, toXPathBoolean(left), toXPathBoolean(right));
+    }
+    return leftValues.some((l) => rightValues.some((r) => compareAtomic(op, l, r)));
+  }
+  return compareAtomic(op, left, right);
+}
+
+function compareAtomic(op: string, left: string | number | boolean, right: string | number | boolean): boolean {
+  if (op === '=' || op === '!=') {
+    let equal: boolean;
+    if (typeof left === 'boolean' || typeof right === 'boolean') {
+      equal = toXPathBoolean(left) === toXPathBoolean(right);
+    } else if (typeof left === 'number' || typeof right === 'number') {
+      equal = toXPathNumber(left) === toXPathNumber(right);
+    } else {
+      equal = left === right;
+    }
+    return op === '=' ? equal : !equal;
+  }
+
+  const l = toXPathNumber(left);
+  const r = toXPathNumber(right);
+  switch (op) {
+    case '<':
+      return l < r;
+    case '>':
+      return l > r;
+    case '<=':
+      return l <= r;
+    default:
+      return l >= r;
+  }
+}
+
+function evaluate(expr: Expr, context: XPathContext): XPathValue {
+  switch (expr.type) {
+    case 'number':
+    case 'string':
+      return expr.value;
+
+    case 'negate':
+      return -toXPathNumber(evaluate(expr.expr, context));
+
+    case 'filter': {
+      const nodes = toNodeSet(evaluate(expr.expr, context), 'filter');
+      return applyPredicates(nodes, expr.predicates, context);
+    }
+
+    case 'path': {
+      let start: XPathNode[];
+      if (expr.filter) {
+        start = toNodeSet(evaluate(expr.filter, context), 'path');
+      } else if (expr.absolute) {
+        start = [context.root];
+      } else {
+        start = [context.node];
+      }
+      return evaluateSteps(start, expr.steps, context);
+    }
+
+    case 'binary': {
+      if (expr.op === 'or') {
+        return toXPathBoolean(evaluate(expr.left, context)) || toXPathBoolean(evaluate(expr.right, context));
+      }
+      if (expr.op === 'and') {
+        return toXPathBoolean(evaluate(expr.left, context)) && toXPathBoolean(evaluate(expr.right, context));
+      }
+
+      const left = evaluate(expr.left, context);
+      const right = evaluate(expr.right, context);
+
+      switch (expr.op) {
+        case '|':
+          return sortDocumentOrder([...toNodeSet(left, 'union'), ...toNodeSet(right, 'union')]);
+        case '+':
+          return toXPathNumber(left) + toXPathNumber(right);
+        case '-':
+          return toXPathNumber(left) - toXPathNumber(right);
+        case 'mul':
+          return toXPathNumber(left) * toXPathNumber(right);
+        case 'div':
+          return toXPathNumber(left) / toXPathNumber(right);
+        case 'mod':
+          return toXPathNumber(left) % toXPathNumber(right);
+        default:
+          return compare(expr.op, left, right);
+      }
+    }
+
+    case 'call': {
+      if (expr.name === 'instance') {
+        const id = toXPathString(evaluate(expr.args[0], context));
+        const instance = context.instances[id];
+        if (!instance) throw new Error(`Unknown instance "${id}"`);
+        return [instance];
+      }
+
+      const name = localName(expr.name);
+      const fn = context.functions?.[expr.name] || context.functions?.[name] || FUNCTIONS[expr.name] || FUNCTIONS[name];
+      if (!fn) throw new Error(`Unknown XPath function "${expr.name}()"`);
+
+      // indexed-repeat() picks the instances itself, so its paths see every
+      // instance rather than only the one containing the current node. Setting
+      // `current` to the root turns the narrowing in evaluateSteps off.
+      if (name === 'indexed-repeat') {
+        const unnarrowed = { ...context, current: context.root };
+        return fn(expr.args.map((arg, index) => evaluate(arg, index > 0 && index % 2 === 0 ? context : unnarrowed)), context);
+      }
+      return fn(expr.args.map((arg) => evaluate(arg, context)), context);
+    }
+  }
+}
+
+function listItems(value: XPathValue): string[] {
+  return toXPathString(value).split(/\s+/).filter(Boolean);
+}
+
+function numericValues(args: XPathValue[]): number[] {
+  return args.flatMap((arg) => (Array.isArray(arg) ? arg.map((node) => toXPathNumber(stringValue(node))) : [toXPathNumber(arg)]));
+}
+
+function toDate(value: XPathValue): Date | null {
+  if (typeof value === 'number') return isNaN(value) ? null : daysToDate(value);
+  const text = toXPathString(value).trim();
+  if (/^-?\d+(\.\d+)?$/.test(text)) return daysToDate(parseFloat(text));
+  return parseDate(text);
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function formatDatePattern(date: Date, pattern: string): string {
+  return pattern.replace(/%([YymnbdeHhMSsa3])/g, (_, code: string) => {
+    switch (code) {
+      case 'Y':
+        return String(date.getFullYear());
+      case 'y':
+        return pad(date.getFullYear() % 100);
+      case 'm':
+        return pad(date.getMonth() + 1);
+      case 'n':
+        return String(date.getMonth() + 1);
+      case 'b':
+        return MONTHS[date.getMonth()];
+      case 'd':
+        return pad(date.getDate());
+      case 'e':
+        return String(date.getDate());
+      case 'H':
+        return pad(date.getHours());
+      case 'h':
+        return String(date.getHours());
+      case 'M':
+        return pad(date.getMinutes());
+      case 'S':
+        return pad(date.getSeconds());
+      case '3':
+        return pad(date.getMilliseconds(), 3);
+      case 'a':
+        return WEEKDAYS[date.getDay()];
+      default:
+        return String(date.getSeconds());
+    }
+  });
+}
+
+function randomUUID(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+const FUNCTIONS: Record<string, XPathFunction> = {
+  // XPath 1.0 core library
+  'last': (_, context) => context.size,
+  'position': (args, context) => {
+    if (args.length === 0) return context.position;
+    const node = toNodeSet(args[0], 'position')[0];
+    if (!node?.parent) return NaN;
+    return node.parent.children.filter((sibling) => sibling.name === node.name).indexOf(node) + 1;
+  },
+  'count': (args) => toNodeSet(args[0], 'count').length,
+  'name': (args, context) => (args.length ? toNodeSet(args[0], 'name')[0]?.name ?? '' : context.node.name),
+  'local-name': (args, context) => localName(args.length ? toNodeSet(args[0], 'local-name')[0]?.name ?? '' : context.node.name),
+  'string': (args, context) => toXPathString(args.length ? args[0] : [context.node]),
+  'concat': (args) => args.map((arg) => (Array.isArray(arg) ? arg.map(stringValue).join('') : toXPathString(arg))).join(''),
+  'starts-with': (args) => toXPathString(args[0]).startsWith(toXPathString(args[1])),
+  'ends-with': (args) => toXPathString(args[0]).endsWith(toXPathString(args[1])),
+  'contains': (args) => toXPathString(args[0]).includes(toXPathString(args[1])),
+  'substring-before': (args) => {
+    const text = toXPathString(args[0]);
+    const index = text.indexOf(toXPathString(args[1]));
+    return index === -1 ? '' : text.slice(0, index);
+  },
+  'substring-after': (args) => {
+    const text = toXPathString(args[0]);
+    const search = toXPathString(args[1]);
+    const index = text.indexOf(search);
+    return index === -1 ? '' : text.slice(index + search.length);
+  },
+  'substring': (args) => {
+    const text = toXPathString(args[0]);
+    const start = Math.round(toXPathNumber(args[1]));
+    const end = args.length > 2 ? start + Math.round(toXPathNumber(args[2])) : Infinity;
+    return Array.from(text).filter((_, i) => i + 1 >= start && i + 1 < end).join('');
+  },
+  'substr': (args) => {
+    const text = toXPathString(args[0]);
+    const start = toXPathNumber(args[1]);
+    return args.length > 2 ? text.slice(start, toXPathNumber(args[2])) : text.slice(start);
+  },
+  'string-length': (args, context) => Array.from(toXPathString(args.length ? args[0] : [context.node])).length,
+  'normalize-space': (args, context) => toXPathString(args.length ? args[0] : [context.node]).trim().replace(/\s+/g, ' '),
+  'translate': (args) => {
+    const from = Array.from(toXPathString(args[1]));
+    const to = Array.from(toXPathString(args[2]));
+    return Array.from(toXPathString(args[0]))
+      .map((ch) => {
+        const index = from.indexOf(ch);
+        return index === -1 ? ch : to[index] ?? '';
+      })
+      .join('');
+  },
+  'boolean': (args) => toXPathBoolean(args[0]),
+  'not': (args) => !toXPathBoolean(args[0]),
+  'true': () => true,
+  'false': () => false,
+  'number': (args, context) => toXPathNumber(args.length ? args[0] : [context.node]),
+  'sum': (args) => toNodeSet(args[0], 'sum').reduce((total, node) => total + toXPathNumber(stringValue(node)), 0),
+  'floor': (args) => Math.floor(toXPathNumber(args[0])),
+  'ceiling': (args) => Math.ceil(toXPathNumber(args[0])),
+  'round': (args) => {
+    const value = toXPathNumber(args[0]);
+    const digits = args.length > 1 ? toXPathNumber(args[1]) : 0;
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+  },
+  'current': (_, context) => [context.current],
+
+  // ODK XForms function library
+  'selected': (args) => listItems(args[0]).includes(toXPathString(args[1]).trim()),
+  'count-selected': (args) => listItems(args[0]).length,
+  'selected-at': (args) => listItems(args[0])[toXPathNumber(args[1])] ?? '',
+  'if': (args) => (toXPathBoolean(args[0]) ? args[1] : args[2]),
+  'coalesce': (args) => {
+    const first = toXPathString(args[0]);
+    return first !== '' ? first : toXPathString(args[1]);
+  },
+  'join': (args) => {
+    const separator = toXPathString(args[0]);
+    return args
+      .slice(1)
+      .flatMap((arg) => (Array.isArray(arg) ? arg.map(stringValue) : [toXPathString(arg)]))
+      .join(separator);
+  },
+  'regex': (args) => new RegExp(toXPathString(args[1])).test(toXPathString(args[0])),
+  'int': (args) => Math.trunc(toXPathNumber(args[0])),
+  'boolean-from-string': (args) => ['true', '1'].includes(toXPathString(args[0]).trim()),
+  'count-non-empty': (args) => toNodeSet(args[0], 'count-non-empty').filter((node) => stringValue(node) !== '').length,
+  'min': (args) => {
+    const values = numericValues(args);
+    return values.length === 0 || values.some(isNaN) ? NaN : Math.min(...values);
+  },
+  'max': (args) => {
+    const values = numericValues(args);
+    return values.length === 0 || values.some(isNaN) ? NaN : Math.max(...values);
+  },
+  'abs': (args) => Math.abs(toXPathNumber(args[0])),
+  'pow': (args) => Math.pow(toXPathNumber(args[0]), toXPathNumber(args[1])),
+  'sqrt': (args) => Math.sqrt(toXPathNumber(args[0])),
+  'exp': (args) => Math.exp(toXPathNumber(args[0])),
+  'exp10': (args) => Math.pow(10, toXPathNumber(args[0])),
+  'log': (args) => Math.log(toXPathNumber(args[0])),
+  'log10': (args) => Math.log10(toXPathNumber(args[0])),
+  'sin': (args) => Math.sin(toXPathNumber(args[0])),
+  'cos': (args) => Math.cos(toXPathNumber(args[0])),
+  'tan': (args) => Math.tan(toXPathNumber(args[0])),
+  'asin': (args) => Math.asin(toXPathNumber(args[0])),
+  'acos': (args) => Math.acos(toXPathNumber(args[0])),
+  'atan': (args) => Math.atan(toXPathNumber(args[0])),
+  'atan2': (args) => Math.atan2(toXPathNumber(args[0]), toXPathNumber(args[1])),
+  'pi': () => Math.PI,
+  'random': () => Math.random(),
+  'uuid': () => randomUUID(),
+  'once': (args, context) => (context.node.value !== '' ? context.node.value : toXPathString(args[0])),
+  'today': () => formatDate(new Date()),
+  'now': () => formatDateTime(new Date()),
+  'date': (args) => {
+    const date = toDate(args[0]);
+    return date ? formatDate(date) : '';
+  },
+  'date-time': (args) => {
+    const date = toDate(args[0]);
+    return date ? formatDateTime(date) : '';
+  },
+  'decimal-date-time': (args) => {
+    const date = toDate(args[0]);
+    return date ? dateToDays(date) : NaN;
+  },
+  'format-date': (args) => {
+    const date = toDate(args[0]);
+    return date ? formatDatePattern(date, toXPathString(args[1])) : '';
+  },
+  'format-date-time': (args) => {
+    const date = toDate(args[0]);
+    return date ? formatDatePattern(date, toXPathString(args[1])) : '';
+  },
+  'checklist': (args) => {
+    const min = toXPathNumber(args[0]);
+    const max = toXPathNumber(args[1]);
+    const count = args.slice(2).flatMap((arg) => (Array.isArray(arg) ? arg.map(stringValue) : [arg])).filter(toXPathBoolean).length;
+    return (min < 0 || count >= min) && (max < 0 || count <= max);
+  },
+  // indexed-repeat(node, repeat1, index1[, repeat2, index2[, ...]]): each
+  // repeat/index pair narrows to one instance inside the previous one.
+  'indexed-repeat': (args) => {
+    const within = (node: XPathNode, instance: XPathNode) => node === instance || ancestors(node).includes(instance);
+    let targets = toNodeSet(args[0], 'indexed-repeat');
+    let scope: XPathNode | null = null;
+
+    for (let i = 1; i + 1 < args.length; i += 2) {
+      const repeats = toNodeSet(args[i], 'indexed-repeat').filter((node) => !scope || within(node, scope));
+      const instance = repeats[toXPathNumber(args[i + 1]) - 1];
+      if (!instance) return [];
+      targets = targets.filter((node) => within(node, instance));
+      scope = instance;
+    }
+    return targets;
+  },
+  // pulldata('instance', 'returnColumn', 'keyColumn', key) looks up a row of a
+  // CSV (or XML) secondary instance, i.e. instance(id)/root/item.
+  pulldata: (args, context) => {
+    const [instanceId, returnColumn, keyColumn, key] = args.map(toXPathString);
+    const document = context.instances[instanceId];
+    if (!document) throw new Error(`pulldata(): unknown instance '${instanceId}'`);
+
+    const column = (item: XPathNode, name: string) => item.children.find((child) => child.name === name);
+    const items = document.children.flatMap((root) => root.children);
+    const match = items.find((item) => {
+      const keyNode = column(item, keyColumn);
+      return keyNode !== undefined && stringValue(keyNode) === key;
+    });
+    const result = match && column(match, returnColumn);
+    return result ? stringValue(result) : '';
+  },
+};
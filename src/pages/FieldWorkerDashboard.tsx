@@ -1,9 +1,10 @@
 import { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
-import { FileText, Download, Trash2, LogOut, Smartphone, CloudOff, RefreshCw } from 'lucide-react';
+import { FileText, Download, Trash2, LogOut, Smartphone, CloudOff, RefreshCw, CalendarOff } from 'lucide-react';
 import { saveFormOffline, getAllOfflineForms, deleteOfflineForm, getPendingSubmissions } from '../lib/offlineStorage';
 import { parseXForm } from '../lib/xmlParser';
+import { getFormAvailability } from '../lib/formLifecycle';
 import { OnlineStatus } from '../components/OnlineStatus';
 import { syncPendingSubmissions } from '../lib/backgroundSync';
 import type { Database } from '../lib/database.types';
@@ -13,6 +14,7 @@ type FormRow = Database['public']['Tables']['forms']['Row'];
 interface FormWithProject extends FormRow {
   projects: {
     name: string;
+    media_quality: string;
   };
 }
 
@@ -63,12 +65,13 @@ export function FieldWorkerDashboard() {
           *,
           projects!inner (
             name,
+            media_quality,
             user_project_access!inner (
               user_id
             )
           )
         `)
-        .eq('is_active', true)
+        .eq('status', 'published')
         .eq('projects.user_project_access.user_id', user.id)
         .order('created_at', { ascending: false });
 
@@ -94,7 +97,7 @@ export function FieldWorkerDashboard() {
     setDownloadingIds(prev => new Set(prev).add(form.id));
     try {
       const parsed = parseXForm(form.xml_content);
-      await saveFormOffline(form, parsed.fields);
+      await saveFormOffline(form, parsed.fields, form.projects.media_quality);
       setOfflineFormIds(prev => new Set(prev).add(form.id));
       alert('Form downloaded for offline use!');
     } catch (err) {
@@ -220,74 +223,84 @@ export function FieldWorkerDashboard() {
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {forms.map((form) => (
-              <div
-                key={form.id}
-                className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 hover:shadow-md transition-shadow"
-              >
-                <div className="flex items-start justify-between mb-4">
-                  <div className="bg-green-100 p-3 rounded-lg">
-                    <FileText className="w-6 h-6 text-green-600" />
-                  </div>
-                  <div className="flex items-center gap-2">
-                    {offlineFormIds.has(form.id) && (
-                      <span className="px-2 py-1 text-xs font-medium bg-green-50 text-green-600 rounded-full flex items-center gap-1">
-                        <CloudOff className="w-3 h-3" />
-                        Offline
+            {forms.map((form) => {
+              const availability = getFormAvailability(form);
+              return (
+                <div
+                  key={form.id}
+                  className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 hover:shadow-md transition-shadow"
+                >
+                  <div className="flex items-start justify-between mb-4">
+                    <div className="bg-green-100 p-3 rounded-lg">
+                      <FileText className="w-6 h-6 text-green-600" />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {offlineFormIds.has(form.id) && (
+                        <span className="px-2 py-1 text-xs font-medium bg-green-50 text-green-600 rounded-full flex items-center gap-1">
+                          <CloudOff className="w-3 h-3" />
+                          Offline
+                        </span>
+                      )}
+                      <span className="px-2 py-1 text-xs font-medium bg-blue-50 text-blue-600 rounded-full">
+                        v{form.version}
                       </span>
-                    )}
-                    <span className="px-2 py-1 text-xs font-medium bg-blue-50 text-blue-600 rounded-full">
-                      v{form.version}
-                    </span>
+                    </div>
                   </div>
-                </div>
 
-                <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                  {form.name}
-                </h3>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                    {form.name}
+                  </h3>
 
-                {form.description && (
-                  <p className="text-sm text-gray-600 mb-3 line-clamp-2">
-                    {form.description}
-                  </p>
-                )}
+                  {form.description && (
+                    <p className="text-sm text-gray-600 mb-3 line-clamp-2">
+                      {form.description}
+                    </p>
+                  )}
 
-                <div className="pt-3 border-t border-gray-100 space-y-2">
-                  <span className="text-xs text-gray-500 block">
-                    {form.projects.name}
-                  </span>
+                  <div className="pt-3 border-t border-gray-100 space-y-2">
+                    <span className="text-xs text-gray-500 block">
+                      {form.projects.name}
+                    </span>
 
-                  <Link
-                    to={`/field/collect/${form.id}`}
-                    className="block w-full text-center px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
-                  >
-                    <div className="flex items-center justify-center gap-2">
-                      <Smartphone className="w-5 h-5" />
-                      Collect Data
-                    </div>
-                  </Link>
+                    {availability.open ? (
+                      <Link
+                        to={`/field/collect/${form.id}`}
+                        className="block w-full text-center px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                      >
+                        <div className="flex items-center justify-center gap-2">
+                          <Smartphone className="w-5 h-5" />
+                          Collect Data
+                        </div>
+                      </Link>
+                    ) : (
+                      <div className="w-full px-4 py-2.5 bg-gray-100 text-gray-600 rounded-lg text-sm flex items-center justify-center gap-2">
+                        <CalendarOff className="w-4 h-4 flex-shrink-0" />
+                        {availability.reason}
+                      </div>
+                    )}
 
-                  {offlineFormIds.has(form.id) ? (
-                    <button
-                      onClick={() => handleRemoveOfflineForm(form.id)}
-                      className="w-full text-xs px-3 py-2 bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors flex items-center justify-center gap-1"
-                    >
-                      <Trash2 className="w-3 h-3" />
-                      Remove Offline
-                    </button>
-                  ) : (
-                    <button
-                      onClick={() => handleDownloadForm(form)}
-                      disabled={downloadingIds.has(form.id)}
-                      className="w-full text-xs px-3 py-2 bg-green-50 text-green-600 rounded-lg hover:bg-green-100 transition-colors disabled:opacity-50 flex items-center justify-center gap-1"
-                    >
-                      <Download className="w-3 h-3" />
-                      {downloadingIds.has(form.id) ? 'Downloading...' : 'Download for Offline'}
-                    </button>
-                  )}
+                    {offlineFormIds.has(form.id) ? (
+                      <button
+                        onClick={() => handleRemoveOfflineForm(form.id)}
+                        className="w-full text-xs px-3 py-2 bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors flex items-center justify-center gap-1"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                        Remove Offline
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleDownloadForm(form)}
+                        disabled={downloadingIds.has(form.id)}
+                        className="w-full text-xs px-3 py-2 bg-green-50 text-green-600 rounded-lg hover:bg-green-100 transition-colors disabled:opacity-50 flex items-center justify-center gap-1"
+                      >
+                        <Download className="w-3 h-3" />
+                        {downloadingIds.has(form.id) ? 'Downloading...' : 'Download for Offline'}
+                      </button>
+                    )}
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
 
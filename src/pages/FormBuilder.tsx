@@ -0,0 +1,705 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import {
+  QUESTION_TYPE_OPTIONS,
+  createBuilderItem,
+  findBuilderItem,
+  updateBuilderItem,
+  removeBuilderItem,
+  insertBuilderItem,
+  moveBuilderItem,
+  questionsBefore,
+  buildXForm,
+  BuilderForm,
+  BuilderItem,
+  BuilderQuestion,
+  BuilderQuestionType,
+  SkipCondition,
+  SkipOperator,
+} from '../lib/formBuilder';
+import { validateXForm } from '../lib/formValidation';
+import { createTeableTable } from '../lib/teableTables';
+import { ArrowLeft, Save, Trash2, Plus, GripVertical, FolderOpen, GitBranch, PenSquare } from 'lucide-react';
+import type { Database } from '../lib/database.types';
+
+type ProjectRow = Database['public']['Tables']['projects']['Row'];
+
+const DRAG_TYPE = 'application/x-form-builder';
+
+// What is being dragged: a new question type from the palette, or an
+// existing item being moved.
+type DragPayload = { source: 'palette'; type: BuilderQuestionType | 'group' } | { source: 'item'; id: string };
+
+interface BuilderIssue {
+  itemId: string | null;
+  message: string;
+}
+
+function slugify(text: string) {
+  return text.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').replace(/^(\d)/, '_$1');
+}
+
+export function FormBuilder() {
+  const { projectId } = useParams<{ projectId: string }>();
+  const { userProfile } = useAuth();
+  const navigate = useNavigate();
+  const [project, setProject] = useState<ProjectRow | null>(null);
+  const [form, setForm] = useState<BuilderForm>({ title: '', formId: '', version: '1', items: [] });
+  const [formIdEdited, setFormIdEdited] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [issues, setIssues] = useState<BuilderIssue[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const loadProject = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('projects')
+      .select('*')
+      .eq('id', projectId!)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading project:', error);
+      return;
+    }
+    setProject(data);
+  }, [projectId]);
+
+  useEffect(() => {
+    loadProject();
+  }, [loadProject]);
+
+  const setItems = (update: (items: BuilderItem[]) => BuilderItem[]) => {
+    setForm((current) => ({ ...current, items: update(current.items) }));
+    setIssues([]);
+  };
+
+  const handleDrop = (payload: DragPayload, parentId: string | null, index: number) => {
+    if (payload.source === 'palette') {
+      const item = createBuilderItem(payload.type, form.items);
+      setItems((items) => insertBuilderItem(items, item, parentId, index));
+      setSelectedId(item.id);
+    } else {
+      setItems((items) => moveBuilderItem(items, payload.id, parentId, index));
+    }
+  };
+
+  const handleAdd = (type: BuilderQuestionType | 'group') => {
+    handleDrop({ source: 'palette', type }, null, form.items.length);
+  };
+
+  const handleRemove = (id: string) => {
+    setItems((items) => removeBuilderItem(items, id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const handleSave = async () => {
+    const formToSave = { ...form, formId: form.formId || slugify(form.title) || 'data' };
+    if (!formToSave.title.trim()) {
+      setIssues([{ itemId: null, message: 'Give the form a title' }]);
+      return;
+    }
+
+    const built = buildXForm(formToSave);
+    if (!built.xml) {
+      setIssues(built.errors);
+      return;
+    }
+
+    const validation = validateXForm(built.xml);
+    const errors = validation.issues.filter((issue) => issue.severity === 'error');
+    if (!validation.parsed || errors.length > 0) {
+      setIssues(errors.map((issue) => ({ itemId: null, message: issue.location ? `${issue.location}: ${issue.message}` : issue.message })));
+      return;
+    }
+    const parsed = validation.parsed;
+
+    setSaving(true);
+    try {
+      const { data: existing, error: existingError } = await supabase
+        .from('forms')
+        .select('id')
+        .eq('project_id', projectId!)
+        .eq('xform_id', parsed.formId)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+      if (existing) {
+        setIssues([{ itemId: null, message: `A form with the ID "${parsed.formId}" already exists in this project` }]);
+        return;
+      }
+
+      const { data: createdForm, error: insertError } = await supabase
+        .from('forms')
+        .insert({
+          project_id: projectId!,
+          name: parsed.title,
+          xml_content: built.xml,
+          version: parsed.version,
+          xform_id: parsed.formId,
+        })
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+
+      const { error: versionError } = await supabase
+        .from('form_versions')
+        .insert({
+          form_id: createdForm.id,
+          version: parsed.version,
+          xml_content: built.xml,
+          created_by: userProfile?.id || null,
+        });
+
+      if (versionError) throw versionError;
+
+      let teableError = null;
+      if (project?.teable_base_url && project.teable_api_token && project.teable_base_id) {
+        try {
+          await createTeableTable(project, createdForm.id, parsed);
+        } catch (teableErr) {
+          console.error('Teable table creation failed:', teableErr);
+          teableError = (teableErr as { message?: string }).message ?? String(teableErr);
+        }
+      }
+
+      if (teableError) {
+        alert(`Form created, but Teable table creation failed: ${teableError}\n\nYou can create the table manually in Teable.`);
+      }
+
+      navigate(`/projects/${projectId}/forms`);
+    } catch (err) {
+      console.error('Error saving form:', err);
+      setIssues([{ itemId: null, message: (err as { message?: string }).message || 'Failed to save form' }]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectedItem = selectedId ? findBuilderItem(form.items, selectedId) : null;
+  const issueItemIds = new Set(issues.map((issue) => issue.itemId).filter(Boolean));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-4">
+              <Link
+                to={`/projects/${projectId}/forms`}
+                className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </Link>
+              <div className="flex items-center gap-3">
+                <PenSquare className="w-8 h-8 text-blue-600" />
+                <div>
+                  <h1 className="text-xl font-bold text-gray-900">Form Builder</h1>
+                  <p className="text-sm text-gray-600">{project?.name}</p>
+                </div>
+              </div>
+            </div>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-5 h-5" />
+              {saving ? 'Saving...' : 'Save as Draft'}
+            </button>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Form Title</label>
+            <input
+              type="text"
+              value={form.title}
+              onChange={(e) => {
+                const title = e.target.value;
+                setForm((current) => ({ ...current, title, formId: formIdEdited ? current.formId : slugify(title) }));
+              }}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Household Survey"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Form ID</label>
+            <input
+              type="text"
+              value={form.formId}
+              onChange={(e) => {
+                setFormIdEdited(true);
+                setForm((current) => ({ ...current, formId: e.target.value }));
+              }}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="household_survey"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Version</label>
+            <input
+              type="text"
+              value={form.version}
+              onChange={(e) => setForm((current) => ({ ...current, version: e.target.value }))}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        {issues.length > 0 && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+            <p className="font-medium mb-1">Please fix these problems before saving:</p>
+            <ul className="list-disc list-inside space-y-0.5">
+              {issues.map((issue, index) => (
+                <li key={index}>
+                  {issue.itemId && (
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(issue.itemId)}
+                      className="font-mono text-xs underline mr-1"
+                    >
+                      {findBuilderItem(form.items, issue.itemId)?.name}
+                    </button>
+                  )}
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+          <aside className="lg:col-span-3">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 lg:sticky lg:top-4">
+              <h2 className="text-sm font-semibold text-gray-900 mb-3">Questions</h2>
+              <p className="text-xs text-gray-500 mb-3">Drag onto the form, or click to add at the end.</p>
+              <div className="grid grid-cols-2 lg:grid-cols-1 gap-2">
+                {[...QUESTION_TYPE_OPTIONS, { type: 'group' as const, label: 'Group' }].map((option) => (
+                  <button
+                    key={option.type}
+                    type="button"
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData(DRAG_TYPE, JSON.stringify({ source: 'palette', type: option.type }));
+                      e.dataTransfer.effectAllowed = 'copy';
+                    }}
+                    onClick={() => handleAdd(option.type)}
+                    className="flex items-center gap-2 px-3 py-2 text-sm text-left border border-gray-200 rounded-lg hover:border-blue-400 hover:bg-blue-50 cursor-grab transition-colors"
+                  >
+                    {option.type === 'group' ? (
+                      <FolderOpen className="w-4 h-4 text-gray-500" />
+                    ) : (
+                      <Plus className="w-4 h-4 text-gray-500" />
+                    )}
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </aside>
+
+          <section className="lg:col-span-5">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 min-h-[24rem]">
+              {form.items.length === 0 ? (
+                <DropZone
+                  onDrop={(payload) => handleDrop(payload, null, 0)}
+                  empty="Drag questions here to start building your form"
+                />
+              ) : (
+                <ItemList
+                  items={form.items}
+                  parentId={null}
+                  selectedId={selectedId}
+                  issueItemIds={issueItemIds}
+                  onSelect={setSelectedId}
+                  onRemove={handleRemove}
+                  onDrop={handleDrop}
+                />
+              )}
+            </div>
+          </section>
+
+          <aside className="lg:col-span-4">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 lg:sticky lg:top-4">
+              {selectedItem ? (
+                <ItemProperties
+                  key={selectedItem.id}
+                  item={selectedItem}
+                  items={form.items}
+                  onChange={(changes) => setItems((items) => updateBuilderItem(items, selectedItem.id, changes))}
+                />
+              ) : (
+                <p className="text-sm text-gray-500">Select a question to edit it.</p>
+              )}
+            </div>
+          </aside>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+function readDragPayload(e: React.DragEvent): DragPayload | null {
+  const data = e.dataTransfer.getData(DRAG_TYPE);
+  return data ? JSON.parse(data) : null;
+}
+
+interface DropZoneProps {
+  onDrop: (payload: DragPayload) => void;
+  // Text shown in an empty list; without it the zone is a thin gap between items.
+  empty?: string;
+}
+
+function DropZone({ onDrop, empty }: DropZoneProps) {
+  const [over, setOver] = useState(false);
+
+  return (
+    <div
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+        e.preventDefault();
+        setOver(true);
+      }}
+      onDragLeave={() => setOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setOver(false);
+        const payload = readDragPayload(e);
+        if (payload) onDrop(payload);
+      }}
+      className={
+        empty
+          ? `py-8 px-4 border-2 border-dashed rounded-lg text-center text-sm text-gray-500 transition-colors ${over ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`
+          : `h-2 -my-1 rounded transition-colors ${over ? 'bg-blue-400' : ''}`
+      }
+    >
+      {empty}
+    </div>
+  );
+}
+
+interface ItemListProps {
+  items: BuilderItem[];
+  parentId: string | null;
+  selectedId: string | null;
+  issueItemIds: Set<string | null>;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  onDrop: (payload: DragPayload, parentId: string | null, index: number) => void;
+}
+
+function ItemList({ items, parentId, selectedId, issueItemIds, onSelect, onRemove, onDrop }: ItemListProps) {
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div key={item.id}>
+          <DropZone onDrop={(payload) => onDrop(payload, parentId, index)} />
+          <div
+            draggable
+            onDragStart={(e) => {
+              e.stopPropagation();
+              e.dataTransfer.setData(DRAG_TYPE, JSON.stringify({ source: 'item', id: item.id }));
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            onClick={(e) => {
+              e.stopPropagation();
+              onSelect(item.id);
+            }}
+            className={`border rounded-lg p-3 cursor-pointer transition-colors ${
+              issueItemIds.has(item.id)
+                ? 'border-red-400 bg-red-50'
+                : selectedId === item.id
+                  ? 'border-blue-500 bg-blue-50'
+                  : 'border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            <div className="flex items-start gap-2">
+              <GripVertical className="w-4 h-4 text-gray-400 mt-0.5 cursor-grab flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">
+                  {item.label || item.name}
+                  {item.kind === 'question' && item.required && <span className="text-red-500 ml-1">*</span>}
+                </p>
+                <p className="text-xs text-gray-500 flex items-center gap-2">
+                  <span className="font-mono">{item.name}</span>
+                  <span>
+                    {item.kind === 'group'
+                      ? 'Group'
+                      : QUESTION_TYPE_OPTIONS.find((option) => option.type === item.type)?.label}
+                  </span>
+                  {item.condition && (
+                    <span className="flex items-center gap-0.5 text-purple-600">
+                      <GitBranch className="w-3 h-3" />
+                      Conditional
+                    </span>
+                  )}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRemove(item.id);
+                }}
+                className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            {item.kind === 'group' && (
+              <div className="mt-3 ml-4 pl-3 border-l-2 border-gray-200">
+                {item.children.length === 0 ? (
+                  <DropZone onDrop={(payload) => onDrop(payload, item.id, 0)} empty="Drag questions into this group" />
+                ) : (
+                  <ItemList
+                    items={item.children}
+                    parentId={item.id}
+                    selectedId={selectedId}
+                    issueItemIds={issueItemIds}
+                    onSelect={onSelect}
+                    onRemove={onRemove}
+                    onDrop={onDrop}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+      <DropZone onDrop={(payload) => onDrop(payload, parentId, items.length)} />
+    </div>
+  );
+}
+
+interface ItemPropertiesProps {
+  item: BuilderItem;
+  items: BuilderItem[];
+  onChange: (changes: Partial<BuilderItem>) => void;
+}
+
+function ItemProperties({ item, items, onChange }: ItemPropertiesProps) {
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-sm font-semibold text-gray-900">
+        {item.kind === 'group' ? 'Group' : QUESTION_TYPE_OPTIONS.find((option) => option.type === item.type)?.label}
+      </h2>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Label</label>
+        <input
+          type="text"
+          value={item.label}
+          onChange={(e) => onChange({ label: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+        <input
+          type="text"
+          value={item.name}
+          onChange={(e) => onChange({ name: e.target.value })}
+          className={`${inputClass} font-mono`}
+        />
+        <p className="mt-1 text-xs text-gray-500">Used as the column name in Teable.</p>
+      </div>
+
+      {item.kind === 'question' && (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Hint</label>
+            <input
+              type="text"
+              value={item.hint}
+              onChange={(e) => onChange({ hint: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          {item.type !== 'note' && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={item.required}
+                onChange={(e) => onChange({ required: e.target.checked })}
+                className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
+              />
+              Required
+            </label>
+          )}
+
+          {(item.type === 'select_one' || item.type === 'select_multiple') && (
+            <ChoicesEditor question={item} onChange={(choices) => onChange({ choices })} />
+          )}
+        </>
+      )}
+
+      <ConditionEditor
+        condition={item.condition}
+        questions={questionsBefore(items, item.id)}
+        onChange={(condition) => onChange({ condition })}
+      />
+    </div>
+  );
+}
+
+interface ChoicesEditorProps {
+  question: BuilderQuestion;
+  onChange: (choices: BuilderQuestion['choices']) => void;
+}
+
+function ChoicesEditor({ question, onChange }: ChoicesEditorProps) {
+  const updateChoice = (index: number, changes: Partial<BuilderQuestion['choices'][number]>) => {
+    onChange(question.choices.map((choice, i) => (i === index ? { ...choice, ...changes } : choice)));
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">Choices</label>
+      <div className="space-y-2">
+        {question.choices.map((choice, index) => (
+          <div key={index} className="flex gap-2">
+            <input
+              type="text"
+              value={choice.label}
+              onChange={(e) => updateChoice(index, { label: e.target.value })}
+              placeholder="Label"
+              className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <input
+              type="text"
+              value={choice.name}
+              onChange={(e) => updateChoice(index, { name: e.target.value })}
+              placeholder="Value"
+              className="w-28 px-2 py-1.5 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              type="button"
+              onClick={() => onChange(question.choices.filter((_, i) => i !== index))}
+              className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => {
+          const number = question.choices.length + 1;
+          onChange([...question.choices, { name: `option_${number}`, label: `Option ${number}` }]);
+        }}
+        className="mt-2 flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+      >
+        <Plus className="w-4 h-4" />
+        Add choice
+      </button>
+    </div>
+  );
+}
+
+interface ConditionEditorProps {
+  condition: SkipCondition | null;
+  // Earlier questions the condition can refer to.
+  questions: BuilderQuestion[];
+  onChange: (condition: SkipCondition | null) => void;
+}
+
+function ConditionEditor({ condition, questions, onChange }: ConditionEditorProps) {
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+  const question = questions.find((q) => q.name === condition?.question);
+
+  const operators: Array<{ value: SkipOperator; label: string }> =
+    question?.type === 'select_multiple'
+      ? [
+          { value: 'selected', label: 'includes' },
+          { value: 'answered', label: 'is answered' },
+        ]
+      : question?.type === 'integer' || question?.type === 'decimal'
+        ? [
+            { value: '=', label: 'equals' },
+            { value: '!=', label: 'does not equal' },
+            { value: '>', label: 'is greater than' },
+            { value: '<', label: 'is less than' },
+            { value: 'answered', label: 'is answered' },
+          ]
+        : [
+            { value: '=', label: 'equals' },
+            { value: '!=', label: 'does not equal' },
+            { value: 'answered', label: 'is answered' },
+          ];
+
+  return (
+    <div className="pt-4 border-t border-gray-100">
+      <label className="block text-sm font-medium text-gray-700 mb-1">Skip Logic</label>
+      {questions.length === 0 ? (
+        <p className="text-xs text-gray-500">Conditions can refer to questions earlier in the form.</p>
+      ) : (
+        <div className="space-y-2">
+          <select
+            value={condition?.question || ''}
+            onChange={(e) => {
+              const next = questions.find((q) => q.name === e.target.value);
+              onChange(next
+                ? { question: next.name, operator: next.type === 'select_multiple' ? 'selected' : '=', value: '' }
+                : null);
+            }}
+            className={inputClass}
+          >
+            <option value="">Always show</option>
+            {questions.map((q) => (
+              <option key={q.id} value={q.name}>Show only if "{q.label || q.name}"</option>
+            ))}
+          </select>
+
+          {condition && question && (
+            <>
+              <select
+                value={condition.operator}
+                onChange={(e) => onChange({ ...condition, operator: e.target.value as SkipOperator })}
+                className={inputClass}
+              >
+                {operators.map((operator) => (
+                  <option key={operator.value} value={operator.value}>{operator.label}</option>
+                ))}
+              </select>
+
+              {condition.operator !== 'answered' && (
+                question.choices.length > 0 ? (
+                  <select
+                    value={condition.value}
+                    onChange={(e) => onChange({ ...condition, value: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Select a choice</option>
+                    {question.choices.map((choice) => (
+                      <option key={choice.name} value={choice.name}>{choice.label || choice.name}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type={question.type === 'integer' || question.type === 'decimal' ? 'number' : question.type === 'date' ? 'date' : 'text'}
+                    value={condition.value}
+                    onChange={(e) => onChange({ ...condition, value: e.target.value })}
+                    className={inputClass}
+                  />
+                )
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { parseXForm, translateForm, ParsedForm } from '../lib/xmlParser';
+import { evaluateForm, getValidationIssues, getRelevantValues, FormValues, ValidationIssue } from '../lib/formLogic';
+import { downloadFormMedia, readFormMediaFiles, readInstanceMedia } from '../lib/formMedia';
+import { readXlsxSheets } from '../lib/xlsxReader';
+import { convertXLSForm } from '../lib/xlsform';
+import { validateXForm, FormValidationIssue } from '../lib/formValidation';
+import { FormPager, LanguageSelect } from '../components/FormRenderer';
+import { ArrowLeft, Eye, Upload, Paperclip, RotateCcw, CheckCircle } from 'lucide-react';
+
+// Lets admins fill in a saved form, or a form file that hasn't been uploaded
+// yet, in a phone-sized frame. Nothing is submitted or synced to Teable.
+export function FormPreview() {
+  const { projectId, formId } = useParams<{ projectId: string; formId?: string }>();
+  const [parsedForm, setParsedForm] = useState<ParsedForm | null>(null);
+  const [loading, setLoading] = useState(!!formId);
+  const [loadError, setLoadError] = useState('');
+
+  const [file, setFile] = useState<File | null>(null);
+  const [mediaFiles, setMediaFiles] = useState<File[]>([]);
+  const [fileIssues, setFileIssues] = useState<FormValidationIssue[]>([]);
+
+  const loadForm = useCallback(async () => {
+    if (!formId) return;
+    try {
+      const { data, error } = await supabase
+        .from('forms')
+        .select('*')
+        .eq('id', formId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) throw new Error('Form not found');
+
+      const media = await downloadFormMedia(readFormMediaFiles(data.media_files));
+      setParsedForm(parseXForm(data.xml_content, await readInstanceMedia(media)));
+    } catch (err) {
+      console.error('Error loading form:', err);
+      setLoadError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [formId]);
+
+  useEffect(() => {
+    loadForm();
+  }, [loadForm]);
+
+  const handlePreviewFile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setFileIssues([]);
+    try {
+      let xmlContent: string;
+      if (/\.xlsx$/i.test(file.name)) {
+        const sheets = await readXlsxSheets(await file.arrayBuffer());
+        const conversion = convertXLSForm(sheets, file.name.replace(/\.xlsx$/i, ''));
+        if (!conversion.xml) {
+          setFileIssues(conversion.errors.map((conversionError) => ({
+            severity: 'error',
+            location: conversionError.row !== null ? `${conversionError.sheet}, row ${conversionError.row}` : conversionError.sheet,
+            message: conversionError.message,
+          })));
+          return;
+        }
+        xmlContent = conversion.xml;
+      } else {
+        xmlContent = await file.text();
+      }
+
+      const mediaTexts = await readInstanceMedia(Object.fromEntries(mediaFiles.map((mediaFile) => [mediaFile.name, mediaFile])));
+      const validation = validateXForm(xmlContent, mediaTexts);
+      const errors = validation.issues.filter((issue) => issue.severity === 'error');
+      setFileIssues(errors);
+      if (validation.parsed && errors.length === 0) {
+        setParsedForm(validation.parsed);
+      }
+    } catch (err) {
+      console.error('Error reading form file:', err);
+      setFileIssues([{ severity: 'error', location: null, message: (err as Error).message }]);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-4">
+              <Link
+                to={`/projects/${projectId}/forms`}
+                className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </Link>
+              <div className="flex items-center gap-3">
+                <Eye className="w-8 h-8 text-blue-600" />
+                <div>
+                  <h1 className="text-xl font-bold text-gray-900">Form Preview</h1>
+                  <p className="text-sm text-gray-600">{parsedForm ? parsedForm.title : 'Preview a form before field workers get it'}</p>
+                </div>
+              </div>
+            </div>
+            {!formId && parsedForm && (
+              <button
+                onClick={() => setParsedForm(null)}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <Upload className="w-5 h-5" />
+                Preview Another File
+              </button>
+            )}
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {loadError && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+            Failed to load form: {loadError}
+          </div>
+        )}
+
+        {parsedForm ? (
+          <PhonePreview key={parsedForm.formId + parsedForm.version} form={parsedForm} />
+        ) : !formId && (
+          <form onSubmit={handlePreviewFile} className="max-w-md mx-auto bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">XForm XML or XLSForm File</label>
+              <input
+                type="file"
+                accept=".xml,.xlsx"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] || null);
+                  setFileIssues([]);
+                }}
+                className="block w-full text-sm text-gray-600"
+              />
+            </div>
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+                <Paperclip className="w-4 h-4" />
+                Form Media (optional)
+              </label>
+              <input
+                type="file"
+                multiple
+                onChange={(e) => {
+                  setMediaFiles(Array.from(e.target.files || []));
+                  setFileIssues([]);
+                }}
+                className="block w-full text-sm text-gray-600"
+              />
+            </div>
+
+            {fileIssues.length > 0 && (
+              <ul className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 space-y-1 max-h-48 overflow-y-auto">
+                {fileIssues.map((issue, index) => (
+                  <li key={index}>
+                    {issue.location && <span className="font-mono text-xs mr-1">{issue.location}:</span>}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <button
+              type="submit"
+              disabled={!file}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Preview
+            </button>
+          </form>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function PhonePreview({ form }: { form: ParsedForm }) {
+  const [values, setValues] = useState<FormValues>({});
+  const [language, setLanguage] = useState<string | null>(null);
+  const [checkedIssues, setCheckedIssues] = useState<ValidationIssue[] | null>(null);
+  const [showData, setShowData] = useState(false);
+
+  const displayForm = useMemo(
+    () => (language ? translateForm(form, language) : form),
+    [form, language]
+  );
+
+  const formState = useMemo(
+    () => evaluateForm(displayForm, values),
+    [displayForm, values]
+  );
+
+  return (
+    <div className="flex flex-col lg:flex-row items-center lg:items-start justify-center gap-8">
+      <div className="w-[375px] max-w-full h-[740px] bg-gray-900 rounded-[2.5rem] p-3 shadow-xl flex-shrink-0">
+        <div className="h-full bg-gray-50 rounded-[2rem] overflow-hidden flex flex-col">
+          <div className="bg-white border-b px-4 pt-6 pb-3">
+            <h2 className="text-base font-semibold text-gray-900 text-center truncate">{form.title}</h2>
+          </div>
+          <div className="flex-1 overflow-y-auto px-4 py-4">
+            <LanguageSelect languages={form.languages} language={language} onChange={setLanguage} />
+            <FormPager
+              form={displayForm}
+              state={formState}
+              onChange={(next) => {
+                setValues(next);
+                setCheckedIssues(null);
+              }}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="w-full max-w-sm space-y-4">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 space-y-3">
+          <p className="text-sm text-gray-600">
+            Skip logic, constraints and calculations work as in data collection. Answers are not saved.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setCheckedIssues(getValidationIssues(displayForm, formState))}
+              className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+            >
+              <CheckCircle className="w-4 h-4" />
+              Check Answers
+            </button>
+            <button
+              onClick={() => {
+                setValues({});
+                setCheckedIssues(null);
+              }}
+              className="flex items-center justify-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Reset
+            </button>
+          </div>
+
+          {checkedIssues && (
+            checkedIssues.length === 0 ? (
+              <p className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+                No problems found. In data collection this form could be submitted.
+              </p>
+            ) : (
+              <ul className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 space-y-1">
+                {checkedIssues.map((issue) => (
+                  <li key={issue.key}>• {issue.label}: {issue.message}</li>
+                ))}
+              </ul>
+            )
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showData}
+              onChange={(e) => setShowData(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
+            />
+            Show submission data
+          </label>
+          {showData && (
+            <pre className="mt-3 p-3 bg-gray-50 rounded-lg text-xs text-gray-700 overflow-x-auto">
+              {JSON.stringify(getRelevantValues(displayForm, formState), null, 2)}
+            </pre>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { supabase } from '../lib/supabase';
 import { FileText, ArrowLeft, Smartphone, Download, Trash2, CloudOff } from 'lucide-react';
 import { saveFormOffline, getAllOfflineForms, deleteOfflineForm } from '../lib/offlineStorage';
 import { parseXForm } from '../lib/xmlParser';
+import { getFormAvailability } from '../lib/formLifecycle';
 import { OnlineStatus } from '../components/OnlineStatus';
 import type { Database } from '../lib/database.types';
 
@@ -13,6 +14,7 @@ type FormRow = Database['public']['Tables']['forms']['Row'];
 interface FormWithProject extends FormRow {
   projects: {
     name: string;
+    media_quality: string;
   };
 }
 
@@ -43,18 +45,14 @@ export function Forms() {
         .from('forms')
         .select(`
           *,
-          projects (
-            name
+          projects!inner (
+            name,
+            media_quality
           )
         `)
-        .eq('is_active', true)
-        .in('project_id', [
-          supabase
-            .from('projects')
-            .select('id')
-            .eq('company_id', userProfile?.company_id || '')
-            .eq('is_active', true)
-        ])
+        .eq('status', 'published')
+        .eq('projects.company_id', userProfile?.company_id || '')
+        .eq('projects.is_active', true)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -70,7 +68,7 @@ export function Forms() {
     setDownloadingIds(prev => new Set(prev).add(form.id));
     try {
       const parsed = parseXForm(form.xml_content);
-      await saveFormOffline(form, parsed.fields);
+      await saveFormOffline(form, parsed.fields, form.projects.media_quality);
       setOfflineFormIds(prev => new Set(prev).add(form.id));
       alert('Form downloaded for offline use!');
     } catch (err) {
@@ -182,6 +180,9 @@ export function Forms() {
                       <span>Collect</span>
                     </div>
                   </div>
+                  {!getFormAvailability(form).open && (
+                    <p className="text-xs text-amber-700 mb-2">{getFormAvailability(form).reason}</p>
+                  )}
                   <div className="flex gap-2 mt-2">
                     {offlineFormIds.has(form.id) ? (
                       <button
@@ -1,13 +1,29 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { Link, useParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { parseXForm, mapODKTypeToTeable } from '../lib/xmlParser';
-import { FileText, Upload, ArrowLeft, Plus, Trash2 } from 'lucide-react';
-import type { Database } from '../lib/database.types';
+import { parseXForm, FormField } from '../lib/xmlParser';
+import { deleteFormMedia, downloadFormMedia, readFormMediaFiles, readInstanceMedia, uploadFormMedia, type FormMediaFile } from '../lib/formMedia';
+import { readXlsxSheets } from '../lib/xlsxReader';
+import { convertXLSForm } from '../lib/xlsform';
+import { validateXForm, FormValidationIssue } from '../lib/formValidation';
+import { diffFormVersions } from '../lib/formDiff';
+import { FORM_STATUSES, FormStatus } from '../lib/formLifecycle';
+import { MEDIA_QUALITIES } from '../lib/mediaQuality';
+import { createTeableTable, addTeableColumns } from '../lib/teableTables';
+import { FileText, Upload, ArrowLeft, Plus, Trash2, Paperclip, History, X, CalendarClock, FlaskConical, Eye } from 'lucide-react';
+import type { Database, Json } from '../lib/database.types';
 
 type FormRow = Database['public']['Tables']['forms']['Row'];
 type ProjectRow = Database['public']['Tables']['projects']['Row'];
+type FormVersionRow = Database['public']['Tables']['form_versions']['Row'];
+
+const STATUS_STYLES: Record<string, string> = {
+  draft: 'bg-amber-100 text-amber-700',
+  published: 'bg-green-100 text-green-700',
+  closed: 'bg-red-100 text-red-700',
+  archived: 'bg-gray-100 text-gray-600',
+};
 
 export function ProjectForms() {
   const { projectId } = useParams<{ projectId: string }>();
@@ -16,6 +32,10 @@ export function ProjectForms() {
   const [forms, setForms] = useState<FormRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [showUploadModal, setShowUploadModal] = useState(false);
+  const [publishingForm, setPublishingForm] = useState<FormRow | null>(null);
+  const [versionsForm, setVersionsForm] = useState<FormRow | null>(null);
+  const [lifecycleForm, setLifecycleForm] = useState<FormRow | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
 
   useEffect(() => {
     loadData();
@@ -54,12 +74,25 @@ export function ProjectForms() {
     }
 
     try {
+      const form = forms.find((f) => f.id === formId);
+      // Media of every published version, looked up before the versions go.
+      const { data: versions } = await supabase
+        .from('form_versions')
+        .select('media_files')
+        .eq('form_id', formId)
+        .returns<Pick<FormVersionRow, 'media_files'>[]>();
+
       const { error } = await supabase
         .from('forms')
         .delete()
         .eq('id', formId);
 
       if (error) throw error;
+
+      const media = [form?.media_files, ...(versions || []).map((version) => version.media_files)].flatMap(readFormMediaFiles);
+      await deleteFormMedia(media).catch((err) => {
+        console.error('Error deleting form media:', err);
+      });
       loadData();
     } catch (err) {
       console.error('Error deleting form:', err);
@@ -67,6 +100,23 @@ export function ProjectForms() {
     }
   };
 
+  // Applies to photos and recordings taken from now on, on devices that load
+  // the form online or download it again.
+  const handleMediaQualityChange = async (mediaQuality: string) => {
+    try {
+      const { error } = await supabase
+        .from('projects')
+        .update({ media_quality: mediaQuality })
+        .eq('id', projectId!);
+
+      if (error) throw error;
+      setProject((current) => current && { ...current, media_quality: mediaQuality });
+    } catch (err) {
+      console.error('Error updating media quality:', err);
+      alert('Failed to update media quality');
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -104,13 +154,43 @@ export function ProjectForms() {
               </div>
             </div>
             {isAdmin && (
-              <button
-                onClick={() => setShowUploadModal(true)}
-                className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-              >
-                <Upload className="w-5 h-5" />
-                Upload Form
-              </button>
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-2 text-sm text-gray-600" title="Compression for photos, audio and video collected in this project">
+                  Media
+                  <select
+                    value={project.media_quality}
+                    onChange={(e) => handleMediaQualityChange(e.target.value)}
+                    className="px-2 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {MEDIA_QUALITIES.map((quality) => (
+                      <option key={quality.value} value={quality.value}>
+                        {quality.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <Link
+                  to={`/projects/${projectId}/forms/preview`}
+                  className="flex items-center gap-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <Eye className="w-5 h-5" />
+                  Preview File
+                </Link>
+                <Link
+                  to={`/projects/${projectId}/forms/new`}
+                  className="flex items-center gap-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <Plus className="w-5 h-5" />
+                  Build Form
+                </Link>
+                <button
+                  onClick={() => setShowUploadModal(true)}
+                  className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  <Upload className="w-5 h-5" />
+                  Upload Form
+                </button>
+              </div>
             )}
           </div>
         </div>
@@ -137,66 +217,156 @@ export function ProjectForms() {
             )}
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {forms.map((form) => (
-              <div
-                key={form.id}
-                className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 hover:shadow-md transition-shadow"
-              >
-                <div className="flex items-start justify-between mb-4">
-                  <div className="bg-green-100 p-3 rounded-lg">
-                    <FileText className="w-6 h-6 text-green-600" />
-                  </div>
-                  {!form.is_active && (
-                    <span className="px-2 py-1 text-xs font-medium bg-gray-100 text-gray-600 rounded-full">
-                      Inactive
+            <>
+            {forms.some((form) => form.status === 'archived') && (
+              <div className="flex justify-end mb-4">
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={showArchived}
+                    onChange={(e) => setShowArchived(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
+                  />
+                  Show archived forms
+                </label>
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {forms.filter((form) => showArchived || form.status !== 'archived').map((form) => (
+                <div
+                  key={form.id}
+                  className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 hover:shadow-md transition-shadow"
+                >
+                  <div className="flex items-start justify-between mb-4">
+                    <div className="bg-green-100 p-3 rounded-lg">
+                      <FileText className="w-6 h-6 text-green-600" />
+                    </div>
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${STATUS_STYLES[form.status] || STATUS_STYLES.archived}`}>
+                      {FORM_STATUSES.find((s) => s.value === form.status)?.label || form.status}
                     </span>
+                  </div>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                    {form.name}
+                  </h3>
+                  {form.description && (
+                    <p className="text-sm text-gray-600 mb-3 line-clamp-2">
+                      {form.description}
+                    </p>
                   )}
-                </div>
-                <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                  {form.name}
-                </h3>
-                {form.description && (
-                  <p className="text-sm text-gray-600 mb-3 line-clamp-2">
-                    {form.description}
-                  </p>
-                )}
-                <div className="flex items-center justify-between pt-3 border-t border-gray-100">
-                  <span className="text-xs text-gray-500">v{form.version}</span>
-                  <div className="flex gap-2">
-                    <Link
-                      to={`/collect/${form.id}`}
-                      className="px-3 py-1.5 text-sm bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors"
-                    >
-                      Collect
-                    </Link>
-                    {isAdmin && (
+                  {(form.opens_at || form.closes_at) && (
+                    <p className="text-xs text-gray-500 mb-3">
+                      {form.opens_at && `Opens ${new Date(form.opens_at).toLocaleString()}`}
+                      {form.opens_at && form.closes_at && ' · '}
+                      {form.closes_at && `Closes ${new Date(form.closes_at).toLocaleString()}`}
+                    </p>
+                  )}
+                  <div className="flex items-center justify-between pt-3 border-t border-gray-100">
+                    <span className="text-xs text-gray-500">v{form.version}</span>
+                    <div className="flex gap-2">
+                      {form.status === 'published' && (
+                        <Link
+                          to={`/collect/${form.id}`}
+                          className="px-3 py-1.5 text-sm bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors"
+                        >
+                          Collect
+                        </Link>
+                      )}
+                      {isAdmin && form.status === 'draft' && (
+                        <Link
+                          to={`/collect/${form.id}?test=1`}
+                          title="Submit test data"
+                          className="flex items-center gap-1 px-3 py-1.5 text-sm bg-purple-50 text-purple-600 rounded-lg hover:bg-purple-100 transition-colors"
+                        >
+                          <FlaskConical className="w-4 h-4" />
+                          Test
+                        </Link>
+                      )}
+                      {isAdmin && (
+                        <Link
+                          to={`/projects/${projectId}/forms/${form.id}/preview`}
+                          title="Preview"
+                          className="p-1.5 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                        >
+                          <Eye className="w-4 h-4" />
+                        </Link>
+                      )}
                       <button
-                        onClick={() => handleDeleteForm(form.id)}
-                        className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        onClick={() => setVersionsForm(form)}
+                        title="Version history"
+                        className="p-1.5 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
                       >
-                        <Trash2 className="w-4 h-4" />
+                        <History className="w-4 h-4" />
                       </button>
-                    )}
+                      {isAdmin && (
+                        <button
+                          onClick={() => setLifecycleForm(form)}
+                          title="Status and schedule"
+                          className="p-1.5 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                        >
+                          <CalendarClock className="w-4 h-4" />
+                        </button>
+                      )}
+                      {isAdmin && (
+                        <button
+                          onClick={() => setPublishingForm(form)}
+                          title="Publish new version"
+                          className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                        >
+                          <Upload className="w-4 h-4" />
+                        </button>
+                      )}
+                      {isAdmin && (
+                        <button
+                          onClick={() => handleDeleteForm(form.id)}
+                          className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
-            ))}
-          </div>
+              ))}
+            </div>
+            </>
         )}
       </main>
 
-      {showUploadModal && (
+      {(showUploadModal || publishingForm) && (
         <UploadFormModal
           projectId={projectId!}
           project={project}
-          onClose={() => setShowUploadModal(false)}
+          forms={forms}
+          existingForm={publishingForm}
+          onClose={() => {
+            setShowUploadModal(false);
+            setPublishingForm(null);
+          }}
           onSuccess={() => {
             loadData();
             setShowUploadModal(false);
+            setPublishingForm(null);
           }}
         />
       )}
+
+      {lifecycleForm && (
+        <FormLifecycleModal
+          form={lifecycleForm}
+          onClose={() => setLifecycleForm(null)}
+          onSuccess={() => {
+            loadData();
+            setLifecycleForm(null);
+          }}
+        />
+      )}
+
+      {versionsForm && (
+        <FormVersionsModal
+          form={versionsForm}
+          onClose={() => setVersionsForm(null)}
+        />
+      )}
     </div>
   );
 }
@@ -204,14 +374,21 @@ export function ProjectForms() {
 interface UploadFormModalProps {
   projectId: string;
   project: ProjectRow;
+  forms: FormRow[];
+  // Set when publishing a new version of this form rather than uploading a new one.
+  existingForm: FormRow | null;
   onClose: () => void;
   onSuccess: () => void;
 }
 
-function UploadFormModal({ projectId, project, onClose, onSuccess }: UploadFormModalProps) {
+function UploadFormModal({ projectId, project, forms, existingForm, onClose, onSuccess }: UploadFormModalProps) {
+  const { userProfile } = useAuth();
   const [file, setFile] = useState<File | null>(null);
+  const [mediaFiles, setMediaFiles] = useState<File[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [issues, setIssues] = useState<FormValidationIssue[]>([]);
+  const [warningsReviewed, setWarningsReviewed] = useState(false);
   const [creatingTeableTable, setCreatingTeableTable] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -219,11 +396,74 @@ function UploadFormModal({ projectId, project, onClose, onSuccess }: UploadFormM
     if (!file) return;
 
     setError('');
+    setIssues([]);
     setLoading(true);
 
     try {
-      const xmlContent = await file.text();
-      const parsed = parseXForm(xmlContent);
+      let xmlContent: string;
+      if (/\.xlsx$/i.test(file.name)) {
+        const sheets = await readXlsxSheets(await file.arrayBuffer());
+        const conversion = convertXLSForm(sheets, file.name.replace(/\.xlsx$/i, ''));
+        if (!conversion.xml) {
+          setIssues(conversion.errors.map((conversionError) => ({
+            severity: 'error',
+            location: conversionError.row !== null ? `${conversionError.sheet}, row ${conversionError.row}` : conversionError.sheet,
+            message: conversionError.message,
+          })));
+          return;
+        }
+        xmlContent = conversion.xml;
+      } else {
+        xmlContent = await file.text();
+      }
+
+      // A new version keeps the current media unless a file with the same name
+      // is attached, so it is validated against both.
+      const currentMedia = existingForm
+        ? readFormMediaFiles(existingForm.media_files).filter((mediaFile) => /\.(csv|xml)$/i.test(mediaFile.name))
+        : [];
+      const mediaTexts = await readInstanceMedia({
+        ...(await downloadFormMedia(currentMedia)),
+        ...Object.fromEntries(mediaFiles.map((mediaFile) => [mediaFile.name, mediaFile])),
+      });
+
+      const validation = validateXForm(xmlContent, mediaTexts);
+      setIssues(validation.issues);
+      const parsed = validation.parsed;
+      if (!parsed || validation.issues.some((issue) => issue.severity === 'error')) {
+        return;
+      }
+      // Warnings are shown first; submitting again uploads the form anyway.
+      if (validation.issues.length > 0 && !warningsReviewed) {
+        setWarningsReviewed(true);
+        return;
+      }
+
+      if (existingForm) {
+        if (existingForm.xform_id && parsed.formId !== existingForm.xform_id) {
+          setError(`This file is form "${parsed.formId}", not "${existingForm.xform_id}". Upload it as a new form instead.`);
+          return;
+        }
+
+        const { data: existingVersion, error: versionError } = await supabase
+          .from('form_versions')
+          .select('id')
+          .eq('form_id', existingForm.id)
+          .eq('version', parsed.version)
+          .maybeSingle();
+
+        if (versionError) throw versionError;
+        if (existingVersion || parsed.version === existingForm.version) {
+          setError(`Version "${parsed.version}" has already been published. Change the version in the form settings and upload again.`);
+          return;
+        }
+      } else {
+        const sameForm = forms.find((f) => f.xform_id === parsed.formId);
+        if (sameForm) {
+          setError(`Form "${parsed.formId}" already exists as "${sameForm.name}". Use "Publish new version" on that form instead.`);
+          return;
+        }
+      }
 
       console.log('Parsed XForm:', {
         formId: parsed.formId,
@@ -233,32 +473,105 @@ function UploadFormModal({ projectId, project, onClose, onSuccess }: UploadFormM
         fields: parsed.fields,
       });
 
+      let formId: string;
+      if (existingForm) {
+        formId = existingForm.id;
+      } else {
+        const { data: createdForm, error: insertError } = await supabase
+          .from('forms')
+          .insert({
+            project_id: projectId,
+            name: parsed.title,
+            xml_content: xmlContent,
+            version: parsed.version,
+            xform_id: parsed.formId,
+          })
+          .select()
+          .single();
+
+        if (insertError) throw insertError;
+        formId = createdForm.id;
+      }
+
+      // The version row goes in before the form points at it, and anything
+      // written so far is undone if a later step fails, so a failed publish can
+      // simply be retried.
+      let uploadedMedia: FormMediaFile[] = [];
+      let versionId: string | null = null;
+      try {
+        // Attached files replace the current ones with the same name; the rest
+        // carry over to the new version.
+        let versionMedia: Json = existingForm ? existingForm.media_files : [];
+        if (mediaFiles.length > 0) {
+          uploadedMedia = await uploadFormMedia(projectId, formId, parsed.version, mediaFiles);
+          const attachedNames = new Set(uploadedMedia.map((mediaFile) => mediaFile.name));
+          const keptMedia = existingForm
+            ? readFormMediaFiles(existingForm.media_files).filter((mediaFile) => !attachedNames.has(mediaFile.name))
+            : [];
+          versionMedia = [...keptMedia, ...uploadedMedia] as unknown as Json;
+        }
+
+        const { data: createdVersion, error: versionInsertError } = await supabase
+          .from('form_versions')
+          .insert({
+            form_id: formId,
+            version: parsed.version,
+            xml_content: xmlContent,
+            media_files: versionMedia,
+            created_by: userProfile?.id || null,
+          })
+          .select('id')
+          .single();
+
+        if (versionInsertError) throw versionInsertError;
+        versionId = createdVersion.id;
+
+        const { error: updateError } = await supabase
+          .from('forms')
+          .update({
+            name: parsed.title,
+            xml_content: xmlContent,
+            version: parsed.version,
+            xform_id: parsed.formId,
+            media_files: versionMedia,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', formId);
+
+        if (updateError) throw updateError;
+      } catch (publishErr) {
+        if (!existingForm) {
+          await supabase.from('forms').delete().eq('id', formId);
+        } else if (versionId) {
+          await supabase.from('form_versions').delete().eq('id', versionId);
+        }
+        await deleteFormMedia(uploadedMedia).catch((err) => {
+          console.error('Error deleting form media:', err);
+        });
+        throw publishErr;
+      }
+
       let teableError = null;
       if (project.teable_base_url && project.teable_api_token && project.teable_base_id) {
         setCreatingTeableTable(true);
         try {
-          await createTeableTable(project, parsed);
+          if (existingForm && existingForm.teable_table_id) {
+            await addTeableColumns(project, existingForm, parseXForm(existingForm.xml_content), parsed);
+          } else {
+            await createTeableTable(project, formId, parsed);
+          }
         } catch (teableErr: any) {
-          console.error('Teable table creation failed:', teableErr);
+          console.error('Teable table update failed:', teableErr);
           teableError = teableErr.message;
         } finally {
           setCreatingTeableTable(false);
         }
       }
 
-      const { error: insertError } = await supabase
-        .from('forms')
-        .insert({
-          project_id: projectId,
-          name: parsed.title,
-          xml_content: xmlContent,
-          version: parsed.version,
-        });
-
-      if (insertError) throw insertError;
-
       if (teableError) {
-        alert(`Form created, but Teable table creation failed: ${teableError}\n\nYou can create the table manually in Teable.`);
+        alert(existingForm
+          ? `Version published, but adding the new columns to Teable failed: ${teableError}\n\nYou can add them manually in Teable.`
+          : `Form created, but Teable table creation failed: ${teableError}\n\nYou can create the table manually in Teable.`);
       }
 
       onSuccess();
@@ -271,74 +584,17 @@ function UploadFormModal({ projectId, project, onClose, onSuccess }: UploadFormM
     }
   };
 
-  const createTeableTable = async (proj: ProjectRow, parsed: any) => {
-    const tableName = parsed.title.replace(/[^a-zA-Z0-9]/g, '_');
-
-    console.log('Creating Teable table with:', {
-      baseUrl: proj.teable_base_url,
-      baseId: proj.teable_base_id,
-      hasToken: !!proj.teable_api_token,
-      tokenLength: proj.teable_api_token?.length,
-      parsedFieldsCount: parsed.fields?.length || 0,
-      parsedFields: parsed.fields,
-    });
-
-    if (!parsed.fields || parsed.fields.length === 0) {
-      throw new Error('No fields found in the form XML. Please check the XML format.');
-    }
-
-    const fields = parsed.fields.map((field: any) => {
-      const teableType = mapODKTypeToTeable(field.type);
-      console.log(`Mapping field: ${field.name} (${field.type}) -> ${teableType}`);
-      return {
-        name: field.name,
-        type: teableType,
-        options: field.choices
-          ? { choices: field.choices.map((c: any) => ({ name: c.value })) }
-          : undefined,
-      };
-    });
-
-    console.log('Teable fields to create:', fields);
-
-    const response = await fetch(`${proj.teable_base_url}/api/base/${proj.teable_base_id}/table`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${proj.teable_api_token}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        name: tableName,
-        fields: [
-          { name: 'Submission ID', type: 'singleLineText' },
-          { name: 'Submitted By', type: 'singleLineText' },
-          { name: 'Submitted At', type: 'date' },
-          ...fields,
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Teable API error:', response.status, errorText);
-      throw new Error(`Failed to create Teable table: ${response.status} ${errorText}`);
-    }
-
-    const data = await response.json();
-
-    await supabase
-      .from('projects')
-      .update({
-        teable_table_id: data.id,
-        teable_table_name: tableName,
-      })
-      .eq('id', projectId);
-  };
-
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
-        <h2 className="text-2xl font-bold text-gray-900 mb-6">Upload ODK Form</h2>
+        <h2 className="text-2xl font-bold text-gray-900 mb-6">
+          {existingForm ? 'Publish New Version' : 'Upload ODK Form'}
+        </h2>
+        {existingForm && (
+          <p className="-mt-4 mb-6 text-sm text-gray-600">
+            {existingForm.name} — currently v{existingForm.version}
+          </p>
+        )}
 
         {error && (
           <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
@@ -346,22 +602,45 @@ function UploadFormModal({ projectId, project, onClose, onSuccess }: UploadFormM
           </div>
         )}
 
+        {issues.length > 0 && (
+          <div className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+            <p className="font-medium text-gray-900 mb-2">
+              {issues.some((issue) => issue.severity === 'error')
+                ? 'Please fix these problems and upload the form again:'
+                : 'The form has warnings. Review them, then upload again to continue:'}
+            </p>
+            <ul className="space-y-1 max-h-48 overflow-y-auto">
+              {issues.map((issue, index) => (
+                <li key={index} className={issue.severity === 'error' ? 'text-red-700' : 'text-amber-700'}>
+                  <span className="font-medium uppercase text-xs mr-1">{issue.severity}</span>
+                  {issue.location && <span className="font-mono text-xs mr-1">{issue.location}:</span>}
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {creatingTeableTable && (
           <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
-            Creating Teable table...
+            {existingForm ? 'Updating Teable table...' : 'Creating Teable table...'}
           </div>
         )}
 
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              XForm XML File
+              XForm XML or XLSForm File
             </label>
             <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center hover:border-blue-400 transition-colors">
               <input
                 type="file"
-                accept=".xml"
-                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                accept=".xml,.xlsx"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] || null);
+                  setIssues([]);
+                  setWarningsReviewed(false);
+                }}
                 className="hidden"
                 id="file-upload"
               />
@@ -373,11 +652,42 @@ function UploadFormModal({ projectId, project, onClose, onSuccess }: UploadFormM
                 <p className="text-sm text-gray-600 mb-1">
                   {file ? file.name : 'Click to upload or drag and drop'}
                 </p>
-                <p className="text-xs text-gray-500">XML files only</p>
+                <p className="text-xs text-gray-500">XML or XLSX files</p>
               </label>
             </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Form Media (optional)
+            </label>
+            <input
+              type="file"
+              multiple
+              onChange={(e) => {
+                setMediaFiles(Array.from(e.target.files || []));
+                setIssues([]);
+                setWarningsReviewed(false);
+              }}
+              className="hidden"
+              id="media-upload"
+            />
+            <label
+              htmlFor="media-upload"
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 cursor-pointer transition-colors"
+            >
+              <Paperclip className="w-4 h-4" />
+              {mediaFiles.length > 0 ? `${mediaFiles.length} file(s) selected` : 'Attach CSV, XML or other media files'}
+            </label>
+            {mediaFiles.length > 0 && (
+              <ul className="mt-2 space-y-1 text-xs text-gray-600">
+                {mediaFiles.map((mediaFile) => (
+                  <li key={mediaFile.name}>{mediaFile.name}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
           <div className="flex gap-3 pt-4">
             <button
               type="button"
@@ -391,7 +701,136 @@ function UploadFormModal({ projectId, project, onClose, onSuccess }: UploadFormM
               disabled={!file || loading}
               className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
             >
-              {loading ? 'Uploading...' : 'Upload'}
+              {loading
+                ? 'Uploading...'
+                : warningsReviewed
+                  ? existingForm ? 'Publish Anyway' : 'Upload Anyway'
+                  : existingForm ? 'Publish' : 'Upload'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+interface FormLifecycleModalProps {
+  form: FormRow;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+// datetime-local inputs work in local time without a zone suffix.
+function toLocalInputValue(value: string | null) {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function FormLifecycleModal({ form, onClose, onSuccess }: FormLifecycleModalProps) {
+  const [status, setStatus] = useState<FormStatus>(form.status as FormStatus);
+  const [opensAt, setOpensAt] = useState(toLocalInputValue(form.opens_at));
+  const [closesAt, setClosesAt] = useState(toLocalInputValue(form.closes_at));
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (opensAt && closesAt && new Date(closesAt) <= new Date(opensAt)) {
+      setError('The closing date must be after the opening date');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error: updateError } = await supabase
+        .from('forms')
+        .update({
+          status,
+          opens_at: opensAt ? new Date(opensAt).toISOString() : null,
+          closes_at: closesAt ? new Date(closesAt).toISOString() : null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', form.id);
+
+      if (updateError) throw updateError;
+      onSuccess();
+    } catch (err: any) {
+      console.error('Error updating form status:', err);
+      setError(err.message || 'Failed to update form');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+        <h2 className="text-2xl font-bold text-gray-900 mb-1">Status and Schedule</h2>
+        <p className="text-sm text-gray-600 mb-6">{form.name}</p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Status</label>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as FormStatus)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {FORM_STATUSES.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              Only published forms are shown to field workers. Drafts can be tried out with the test link.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Opens (optional)</label>
+            <input
+              type="datetime-local"
+              value={opensAt}
+              onChange={(e) => setOpensAt(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Closes (optional)</label>
+            <input
+              type="datetime-local"
+              value={closesAt}
+              onChange={(e) => setClosesAt(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              A published form only accepts submissions between these dates, also on devices working offline.
+            </p>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {loading ? 'Saving...' : 'Save'}
             </button>
           </div>
         </form>
@@ -399,3 +838,186 @@ function UploadFormModal({ projectId, project, onClose, onSuccess }: UploadFormM
     </div>
   );
 }
+
+interface FormVersionsModalProps {
+  form: FormRow;
+  onClose: () => void;
+}
+
+function describeField(field: FormField | null) {
+  if (!field) return null;
+  return (
+    <>
+      <p className="font-medium text-gray-900">{field.label}</p>
+      <p className="text-xs text-gray-500">
+        {field.type}
+        {field.required && ', required'}
+        {field.choices && `, ${field.choices.length} choice(s)`}
+      </p>
+    </>
+  );
+}
+
+function FormVersionsModal({ form, onClose }: FormVersionsModalProps) {
+  const [versions, setVersions] = useState<FormVersionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [olderId, setOlderId] = useState('');
+  const [newerId, setNewerId] = useState('');
+
+  const loadVersions = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('form_versions')
+        .select('*')
+        .eq('form_id', form.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const rows = data || [];
+      setVersions(rows);
+      if (rows.length > 1) {
+        setNewerId(rows[0].id);
+        setOlderId(rows[1].id);
+      }
+    } catch (err) {
+      console.error('Error loading form versions:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [form.id]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const older = versions.find((v) => v.id === olderId);
+  const newer = versions.find((v) => v.id === newerId);
+
+  const diffs = useMemo(() => {
+    if (!older || !newer || older.id === newer.id) return [];
+    try {
+      return diffFormVersions(parseXForm(older.xml_content), parseXForm(newer.xml_content));
+    } catch (err) {
+      console.error('Error comparing form versions:', err);
+      return [];
+    }
+  }, [older, newer]);
+
+  const changeStyles = {
+    added: 'bg-green-50',
+    removed: 'bg-red-50',
+    changed: 'bg-amber-50',
+    unchanged: '',
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Version History</h2>
+            <p className="text-sm text-gray-600">{form.name}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <>
+              <ul className="divide-y divide-gray-100 mb-6">
+                {versions.map((version) => (
+                  <li key={version.id} className="flex items-center justify-between py-2 text-sm">
+                    <span className="font-medium text-gray-900">
+                      v{version.version}
+                      {version.version === form.version && (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-medium bg-green-100 text-green-700 rounded-full">
+                          Current
+                        </span>
+                      )}
+                    </span>
+                    <span className="text-gray-500">{new Date(version.created_at).toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+
+              {versions.length < 2 ? (
+                <p className="text-sm text-gray-600">
+                  Publish a new version of this form to compare versions.
+                </p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 gap-4 mb-4">
+                    {[
+                      { label: 'Compare', value: olderId, onChange: setOlderId },
+                      { label: 'With', value: newerId, onChange: setNewerId },
+                    ].map((picker) => (
+                      <div key={picker.label}>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{picker.label}</label>
+                        <select
+                          value={picker.value}
+                          onChange={(e) => picker.onChange(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          {versions.map((version) => (
+                            <option key={version.id} value={version.id}>v{version.version}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+
+                  {olderId === newerId ? (
+                    <p className="text-sm text-gray-600">Pick two different versions to compare.</p>
+                  ) : (
+                    <table className="w-full text-sm border border-gray-200">
+                      <thead className="bg-gray-50 text-left">
+                        <tr>
+                          <th className="px-3 py-2 font-medium text-gray-700">Field</th>
+                          <th className="px-3 py-2 font-medium text-gray-700">v{older?.version}</th>
+                          <th className="px-3 py-2 font-medium text-gray-700">v{newer?.version}</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {diffs.map((diff) => (
+                          <tr key={diff.ref} className={changeStyles[diff.change]}>
+                            <td className="px-3 py-2 align-top font-mono text-xs text-gray-700">
+                              {diff.ref}
+                              {diff.change !== 'unchanged' && (
+                                <span className="block mt-1 font-sans uppercase text-gray-500">{diff.change}</span>
+                              )}
+                            </td>
+                            <td className="px-3 py-2 align-top">{describeField(diff.before)}</td>
+                            <td className="px-3 py-2 align-top">
+                              {describeField(diff.after)}
+                              {diff.details.length > 0 && (
+                                <ul className="mt-1 text-xs text-amber-800 space-y-0.5">
+                                  {diff.details.map((detail) => (
+                                    <li key={detail}>{detail}</li>
+                                  ))}
+                                </ul>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ import {
   type TeableRecord,
   type TeableField,
 } from '../lib/teableData';
+import { extractGeoJSON } from '../lib/geometry';
 import { AlertCircle, Loader2, MapPin } from 'lucide-react';
 import { TeableTableSelector } from '../components/TeableTableSelector';
 
@@ -34,6 +35,8 @@ export function ProjectMapView() {
   const mapRef = useRef<L.Map | null>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const markerClusterRef = useRef<L.MarkerClusterGroup | null>(null);
+  // Lines and polygons (geotrace/geoshape answers) aren't clustered.
+  const shapesRef = useRef<L.FeatureGroup | null>(null);
   const [projectConfig, setProjectConfig] = useState<{ baseUrl: string; baseId: string; apiToken: string } | null>(null);
   const [teableConfig, setTeableConfig] = useState<TeableConfig | null>(null);
   const [selectedTableName, setSelectedTableName] = useState<string>('');
@@ -129,6 +132,7 @@ export function ProjectMapView() {
     mapRef.current = map;
     markerClusterRef.current = L.markerClusterGroup();
     map.addLayer(markerClusterRef.current);
+    shapesRef.current = L.featureGroup().addTo(map);
 
     return () => {
       if (mapRef.current) {
@@ -139,9 +143,10 @@ export function ProjectMapView() {
   }, []);
 
   useEffect(() => {
-    if (!mapRef.current || !markerClusterRef.current || !tableStructure || !records.length || !selectedGeometryFieldId) return;
+    if (!mapRef.current || !markerClusterRef.current || !shapesRef.current || !tableStructure || !records.length || !selectedGeometryFieldId) return;
 
     markerClusterRef.current.clearLayers();
+    shapesRef.current.clearLayers();
 
     const geometryField = tableStructure.fields.find(f => f.id === selectedGeometryFieldId);
     if (!geometryField) {
@@ -149,15 +154,14 @@ export function ProjectMapView() {
       return;
     }
 
-    const markers: L.Marker[] = [];
+    const layers: L.Layer[] = [];
 
     records.forEach((record: TeableRecord) => {
       const geoValue = record.fields[geometryField.name] || record.fields[geometryField.id];
       const coords = extractCoordinates(geoValue);
+      const shape = coords ? null : extractGeoJSON(geoValue);
 
-      if (coords) {
-        const [lat, lng] = coords;
-
+      if (coords || shape) {
         const popupContent = Object.entries(record.fields)
           .map(([key, value]) => {
             if (value === null || value === undefined) return '';
@@ -173,14 +177,20 @@ export function ProjectMapView() {
           })
           .join('');
 
-        const marker = L.marker([lat, lng]).bindPopup(popupContent);
-        markers.push(marker);
-        markerClusterRef.current!.addLayer(marker);
+        if (coords) {
+          const marker = L.marker(coords).bindPopup(popupContent);
+          layers.push(marker);
+          markerClusterRef.current!.addLayer(marker);
+        } else {
+          const layer = L.geoJSON(shape as GeoJSON.Geometry, { style: { color: '#2563eb', weight: 3 } }).bindPopup(popupContent);
+          layers.push(layer);
+          shapesRef.current!.addLayer(layer);
+        }
       }
     });
 
-    if (markers.length > 0) {
-      const group = L.featureGroup(markers);
+    if (layers.length > 0) {
+      const group = L.featureGroup(layers);
       mapRef.current.fitBounds(group.getBounds(), { padding: [50, 50] });
     }
   }, [records, tableStructure, selectedGeometryFieldId]);
@@ -228,7 +238,7 @@ export function ProjectMapView() {
   const geoRecordsCount = records.filter((record) => {
     if (!geometryField) return false;
     const geoValue = record.fields[geometryField.name] || record.fields[geometryField.id];
-    return extractCoordinates(geoValue) !== null;
+    return extractCoordinates(geoValue) !== null || extractGeoJSON(geoValue) !== null;
   }).length;
 
   return (
@@ -3,7 +3,8 @@ import { Link, useParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
 import { syncSubmissionToTeable } from '../lib/teableSync';
-import { Database, ArrowLeft, Eye, Trash2, CheckCircle, XCircle, Clock, RefreshCw, List, Table, Map } from 'lucide-react';
+import { getSubmissionAttachments, deleteSubmissionMedia, SubmissionAttachment } from '../lib/submissionMedia';
+import { Database, ArrowLeft, Eye, Trash2, CheckCircle, XCircle, Clock, RefreshCw, List, Table, Map, Paperclip } from 'lucide-react';
 import { ProjectTableView } from './ProjectTableView';
 import { ProjectMapView } from './ProjectMapView';
 import type { Database as DB } from '../lib/database.types';
@@ -25,6 +26,7 @@ export function ProjectSubmissions() {
   const [selectedSubmission, setSelectedSubmission] = useState<SubmissionWithUser | null>(null);
   const [retryingSync, setRetryingSync] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'list' | 'table' | 'map'>('list');
+  const [showTestSubmissions, setShowTestSubmissions] = useState(false);
 
   useEffect(() => {
     loadData();
@@ -81,6 +83,10 @@ export function ProjectSubmissions() {
         .eq('id', submissionId);
 
       if (error) throw error;
+
+      await deleteSubmissionMedia(projectId!, submissionId).catch((err) => {
+        console.error('Error deleting submission media:', err);
+      });
       loadData();
     } catch (err) {
       console.error('Error deleting submission:', err);
@@ -121,6 +127,10 @@ export function ProjectSubmissions() {
     }
   };
 
+  // Test submissions from draft test links are listed separately from real data.
+  const visibleSubmissions = submissions.filter((submission) => submission.is_test === showTestSubmissions);
+  const testCount = submissions.filter((submission) => submission.is_test).length;
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -150,7 +160,7 @@ export function ProjectSubmissions() {
               </div>
             </div>
             <div className="text-sm text-gray-600">
-              {submissions.length} total submissions
+              {visibleSubmissions.length} {showTestSubmissions ? 'test' : 'total'} submissions
             </div>
           </div>
         </div>
@@ -197,8 +207,22 @@ export function ProjectSubmissions() {
           </div>
         </div>
 
+        {activeTab === 'list' && testCount > 0 && (
+          <div className="flex justify-end mb-4">
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showTestSubmissions}
+                onChange={(e) => setShowTestSubmissions(e.target.checked)}
+                className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
+              />
+              Show test submissions ({testCount})
+            </label>
+          </div>
+        )}
+
         {activeTab === 'list' && (
-          submissions.length === 0 ? (
+          visibleSubmissions.length === 0 ? (
             <div className="text-center py-12 bg-white rounded-xl shadow-sm">
               <Database className="w-16 h-16 text-gray-400 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">No submissions yet</h3>
@@ -228,7 +252,7 @@ export function ProjectSubmissions() {
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {submissions.map((submission) => (
+                  {visibleSubmissions.map((submission) => (
                     <tr key={submission.id} className="hover:bg-gray-50">
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
                         {new Date(submission.created_at).toLocaleString()}
@@ -356,6 +380,17 @@ interface SubmissionDetailModalProps {
 
 function SubmissionDetailModal({ submission, onClose }: SubmissionDetailModalProps) {
   const data = submission.data as Record<string, any>;
+  const [attachments, setAttachments] = useState<Record<string, SubmissionAttachment>>({});
+
+  useEffect(() => {
+    getSubmissionAttachments(submission.id)
+      .then(setAttachments)
+      .catch((err) => {
+        console.error('Error loading attachments:', err);
+      });
+  }, [submission.id]);
+
+  const attachment = (value: unknown) => (typeof value === 'string' ? attachments[value] : undefined);
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -393,6 +428,12 @@ function SubmissionDetailModal({ submission, onClose }: SubmissionDetailModalPro
                   {submission.synced_to_teable ? 'Synced' : 'Not Synced'}
                 </p>
               </div>
+              <div>
+                <p className="text-gray-600">Form Version</p>
+                <p className="font-medium text-gray-900">
+                  {submission.form_version ? `v${submission.form_version}` : 'Unknown'}
+                </p>
+              </div>
             </div>
             {submission.sync_error && (
               <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
@@ -419,6 +460,8 @@ function SubmissionDetailModal({ submission, onClose }: SubmissionDetailModalPro
                         {JSON.stringify(value, null, 2)}
                       </pre>
                     )
+                  ) : attachment(value) ? (
+                    <AttachmentPreview attachment={attachment(value)!} />
                   ) : typeof value === 'string' && value.startsWith('data:image') ? (
                     <img src={value} alt={key} className="max-w-full h-auto rounded-lg mt-2" />
                   ) : typeof value === 'string' && value.startsWith('data:audio') ? (
@@ -437,3 +480,27 @@ function SubmissionDetailModal({ submission, onClose }: SubmissionDetailModalPro
     </div>
   );
 }
+
+// Media answers stored as attachments, shown through signed URLs.
+function AttachmentPreview({ attachment }: { attachment: SubmissionAttachment }) {
+  if (attachment.type.startsWith('image/')) {
+    return <img src={attachment.url} alt={attachment.fileName} className="max-w-full h-auto rounded-lg mt-2" />;
+  }
+  if (attachment.type.startsWith('audio/')) {
+    return <audio src={attachment.url} controls className="w-full mt-2" />;
+  }
+  if (attachment.type.startsWith('video/')) {
+    return <video src={attachment.url} controls className="w-full rounded-lg mt-2" />;
+  }
+  return (
+    <a
+      href={attachment.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center gap-2 text-sm text-blue-600 hover:underline"
+    >
+      <Paperclip className="w-4 h-4" />
+      {attachment.fileName}
+    </a>
+  );
+}
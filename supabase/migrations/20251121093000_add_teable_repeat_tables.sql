@@ -0,0 +1,19 @@
+/*
+  # Add Teable repeat tables to projects
+
+  ## Problem
+  Repeat groups in a form produce several rows per submission. They cannot be
+  stored as columns of the project's Teable table, so they were being written
+  as JSON strings.
+
+  ## Changes
+  1. Add `teable_repeat_tables` to projects, mapping each repeat path
+     (e.g. `household/members`) to the id of its linked child Teable table
+
+  ## Notes
+  - Existing projects default to an empty mapping
+  - Child tables are created alongside the main table when a form is uploaded
+*/
+
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS teable_repeat_tables jsonb NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,61 @@
+/*
+  # Add form media files
+
+  ## Problem
+  Forms can declare external secondary instances (`jr://file-csv/*.csv`,
+  `jr://file/*.xml`) for choice lists and pulldata() lookups. Only the XForm
+  itself was stored, so those forms could not be filled in.
+
+  ## Changes
+  1. Add `media_files` to forms: a list of `{ name, path, type, size }` for the
+     files uploaded with the form
+  2. Create a private `form-media` storage bucket. Objects are stored under
+     `<project_id>/<form_id>/<file name>`
+  3. Storage policies: company users can read their projects' form media,
+     admins can upload and delete it
+
+  ## Notes
+  - Existing forms default to no media files
+*/
+
+ALTER TABLE forms
+ADD COLUMN IF NOT EXISTS media_files jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('form-media', 'form-media', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view company form media"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'form-media' AND
+    (storage.foldername(name))[1] IN (
+      SELECT id::text FROM projects
+      WHERE company_id = public.get_user_company_id(auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can upload form media"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'form-media' AND
+    public.get_user_role(auth.uid()) = 'admin' AND
+    (storage.foldername(name))[1] IN (
+      SELECT id::text FROM projects
+      WHERE company_id = public.get_user_company_id(auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can delete form media"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'form-media' AND
+    public.get_user_role(auth.uid()) = 'admin' AND
+    (storage.foldername(name))[1] IN (
+      SELECT id::text FROM projects
+      WHERE company_id = public.get_user_company_id(auth.uid())
+    )
+  );
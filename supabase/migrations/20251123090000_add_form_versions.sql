@@ -0,0 +1,86 @@
+/*
+  # Add form versions
+
+  ## Problem
+  Re-uploading a form inserted a new, unrelated `forms` row, so there was no
+  history of a form's versions and submissions did not record which version
+  they were collected on.
+
+  ## Changes
+  1. Add `xform_id` to forms: the XForm's `id` attribute, which identifies a
+     form across versions (unique per project)
+  2. Create `form_versions` with one row per published version of a form,
+     holding that version's XML and media files. `forms` keeps the current
+     version
+  3. Add `form_version` to submissions
+  4. Backfill a version row for every existing form
+
+  ## Security
+  - Users can view versions of their company's forms
+  - Admins can publish and delete versions
+*/
+
+ALTER TABLE forms
+ADD COLUMN IF NOT EXISTS xform_id text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS forms_project_xform_id_key
+  ON forms (project_id, xform_id)
+  WHERE xform_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS form_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id uuid NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+  version text NOT NULL,
+  xml_content text NOT NULL,
+  media_files jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (form_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS form_versions_form_id_idx ON form_versions (form_id);
+
+ALTER TABLE submissions
+ADD COLUMN IF NOT EXISTS form_version text;
+
+INSERT INTO form_versions (form_id, version, xml_content, media_files, created_at)
+SELECT id, version, xml_content, media_files, created_at
+FROM forms
+ON CONFLICT (form_id, version) DO NOTHING;
+
+ALTER TABLE form_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view company form versions"
+  ON form_versions FOR SELECT
+  TO authenticated
+  USING (
+    form_id IN (
+      SELECT f.id FROM forms f
+      JOIN projects p ON p.id = f.project_id
+      WHERE p.company_id = public.get_user_company_id(auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can insert form versions"
+  ON form_versions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.get_user_role(auth.uid()) = 'admin' AND
+    form_id IN (
+      SELECT f.id FROM forms f
+      JOIN projects p ON p.id = f.project_id
+      WHERE p.company_id = public.get_user_company_id(auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can delete form versions"
+  ON form_versions FOR DELETE
+  TO authenticated
+  USING (
+    public.get_user_role(auth.uid()) = 'admin' AND
+    form_id IN (
+      SELECT f.id FROM forms f
+      JOIN projects p ON p.id = f.project_id
+      WHERE p.company_id = public.get_user_company_id(auth.uid())
+    )
+  );
@@ -0,0 +1,37 @@
+/*
+  # Add form lifecycle
+
+  ## Problem
+  `forms.is_active` was the only lifecycle control, so an uploaded form went
+  live to field workers straight away and there was no way to schedule when a
+  form accepts submissions.
+
+  ## Changes
+  1. Add `status` to forms: draft, published, closed or archived. New forms
+     start as drafts
+  2. Add `opens_at` / `closes_at` to forms for scheduled collection windows
+  3. Backfill `status` from `is_active` and drop `is_active`
+  4. Add `is_test` to submissions for test data entered through a draft's
+     test link, which is kept apart from real submissions
+
+  ## Notes
+  - The collection window is also checked by the collect pages offline, from
+    the copy of the form stored on the device
+*/
+
+ALTER TABLE forms
+ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'draft'
+  CHECK (status IN ('draft', 'published', 'closed', 'archived'));
+
+ALTER TABLE forms
+ADD COLUMN IF NOT EXISTS opens_at timestamptz,
+ADD COLUMN IF NOT EXISTS closes_at timestamptz;
+
+UPDATE forms
+SET status = CASE WHEN is_active THEN 'published' ELSE 'closed' END;
+
+ALTER TABLE forms
+DROP COLUMN IF EXISTS is_active;
+
+ALTER TABLE submissions
+ADD COLUMN IF NOT EXISTS is_test boolean NOT NULL DEFAULT false;
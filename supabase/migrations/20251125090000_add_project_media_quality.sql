@@ -0,0 +1,22 @@
+/*
+  # Add project media quality
+
+  ## Problem
+  Photos were stored at full camera resolution and recordings at the
+  browser's default bitrate, all as data URLs inside `submissions.data`.
+  On slow connections those submissions often failed to upload.
+
+  ## Changes
+  1. Add `media_quality` to projects: low, medium, high or original. It sets
+     the JPEG quality, the default largest photo size and the audio/video
+     recording bitrates used on the device before media is saved or queued
+
+  ## Notes
+  - A question's `orx:max-pixels` bind attribute takes precedence over the
+    project's default photo size
+  - `original` keeps photos at full size; it still re-encodes them as JPEG
+*/
+
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS media_quality text NOT NULL DEFAULT 'medium'
+  CHECK (media_quality IN ('low', 'medium', 'high', 'original'));
@@ -0,0 +1,119 @@
+/*
+  # Store submission media in storage
+
+  ## Problem
+  Photos, audio and video were kept as base64 data URLs inside
+  `submissions.data`, which made submissions large and slow to upload. The
+  `attachments` table existed but nothing wrote to it.
+
+  ## Changes
+  1. Create a private `submission-media` storage bucket. Objects are stored
+     under `<project_id>/<submission_id>/<file name>`
+  2. Storage policies: company users can read and upload their projects'
+     submission media (uploads are retried, so they can also overwrite it);
+     admins can delete it
+  3. Attachments policies: company users can view and add attachments of
+     their company's submissions; admins can delete them
+  4. Unique `(submission_id, storage_path)` on attachments, so a retried sync
+     does not record a file twice
+
+  ## Notes
+  - Submission answers now hold the file name; the attachment row links it to
+    the stored object
+  - Submissions collected before this keep their data URLs
+*/
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('submission-media', 'submission-media', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view company submission media"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'submission-media' AND
+    (storage.foldername(name))[1] IN (
+      SELECT id::text FROM projects
+      WHERE company_id = public.get_user_company_id(auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can upload company submission media"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'submission-media' AND
+    (storage.foldername(name))[1] IN (
+      SELECT id::text FROM projects
+      WHERE company_id = public.get_user_company_id(auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can replace company submission media"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'submission-media' AND
+    (storage.foldername(name))[1] IN (
+      SELECT id::text FROM projects
+      WHERE company_id = public.get_user_company_id(auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can delete submission media"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'submission-media' AND
+    public.get_user_role(auth.uid()) = 'admin' AND
+    (storage.foldername(name))[1] IN (
+      SELECT id::text FROM projects
+      WHERE company_id = public.get_user_company_id(auth.uid())
+    )
+  );
+
+ALTER TABLE attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view company attachments" ON attachments;
+DROP POLICY IF EXISTS "Users can create attachments" ON attachments;
+DROP POLICY IF EXISTS "Admins can delete company attachments" ON attachments;
+
+CREATE POLICY "Users can view company attachments"
+  ON attachments FOR SELECT
+  TO authenticated
+  USING (
+    submission_id IN (
+      SELECT s.id FROM submissions s
+      JOIN forms f ON s.form_id = f.id
+      JOIN projects p ON f.project_id = p.id
+      WHERE p.company_id = public.get_user_company_id(auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can create attachments"
+  ON attachments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    submission_id IN (
+      SELECT s.id FROM submissions s
+      JOIN forms f ON s.form_id = f.id
+      JOIN projects p ON f.project_id = p.id
+      WHERE p.company_id = public.get_user_company_id(auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can delete company attachments"
+  ON attachments FOR DELETE
+  TO authenticated
+  USING (
+    public.get_user_role(auth.uid()) = 'admin' AND
+    submission_id IN (
+      SELECT s.id FROM submissions s
+      JOIN forms f ON s.form_id = f.id
+      JOIN projects p ON f.project_id = p.id
+      WHERE p.company_id = public.get_user_company_id(auth.uid())
+    )
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS attachments_submission_id_storage_path_key
+  ON attachments (submission_id, storage_path);
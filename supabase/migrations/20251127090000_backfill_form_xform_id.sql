@@ -0,0 +1,46 @@
+/*
+  # Backfill forms.xform_id
+
+  ## Problem
+  `xform_id` was added without filling it in for existing forms. Re-uploading
+  one of those forms did not match it, so a second form was created instead of
+  the upload being sent to "Publish new version".
+
+  ## Changes
+  1. Set `xform_id` from the `id` attribute of the primary instance's root
+     element in `xml_content`
+
+  ## Notes
+  - Before versions existed the same form could be uploaded more than once to
+    a project. Only the newest of those gets the id (it is unique per
+    project); older copies keep a null `xform_id`
+  - Forms whose XML has no readable id are left as they are
+*/
+
+WITH parsed AS (
+  SELECT
+    id,
+    project_id,
+    created_at,
+    substring(xml_content FROM '<instance>\s*<[^\s>/]+[^>]*\sid=["'']([^"'']+)["'']') AS xform_id
+  FROM forms
+  WHERE xform_id IS NULL
+),
+ranked AS (
+  SELECT
+    parsed.id,
+    parsed.xform_id,
+    row_number() OVER (PARTITION BY parsed.project_id, parsed.xform_id ORDER BY parsed.created_at DESC) AS position
+  FROM parsed
+  WHERE parsed.xform_id IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM forms existing
+      WHERE existing.project_id = parsed.project_id
+        AND existing.xform_id = parsed.xform_id
+    )
+)
+UPDATE forms
+SET xform_id = ranked.xform_id
+FROM ranked
+WHERE forms.id = ranked.id
+  AND ranked.position = 1;
@@ -0,0 +1,36 @@
+/*
+  # Give each form its own Teable table
+
+  ## Problem
+  The Teable table was stored on the project. Uploading a second form created
+  its table and overwrote the project's table id, so submissions to the first
+  form were synced to the second form's table and new columns were added to
+  the wrong table.
+
+  ## Changes
+  1. Add `teable_table_id`, `teable_table_name` and `teable_repeat_tables` to
+     forms
+  2. Backfill them from the form's project
+
+  ## Notes
+  - Until now every form of a project synced to the project's table, so the
+    backfill keeps them pointing at it; forms uploaded from now on get their
+    own table
+  - `projects.teable_table_id` stays as the table the project's map and table
+    views show
+*/
+
+ALTER TABLE forms
+ADD COLUMN IF NOT EXISTS teable_table_id text,
+ADD COLUMN IF NOT EXISTS teable_table_name text,
+ADD COLUMN IF NOT EXISTS teable_repeat_tables jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+UPDATE forms
+SET
+  teable_table_id = projects.teable_table_id,
+  teable_table_name = projects.teable_table_name,
+  teable_repeat_tables = projects.teable_repeat_tables
+FROM projects
+WHERE forms.project_id = projects.id
+  AND forms.teable_table_id IS NULL
+  AND projects.teable_table_id IS NOT NULL;
@@ -0,0 +1,45 @@
+/*
+  # Check the form lifecycle when submissions are created
+
+  ## Problem
+  Form status and the collection window were only checked by the collect
+  pages. Anyone in the company could still insert submissions for draft,
+  closed or archived forms, or outside the window, straight through the API.
+
+  ## Changes
+  1. Replace the "Users can create submissions" policy so a submission is
+     only accepted when:
+     - it is test data (`is_test`) for a draft form, or
+     - it is real data for a published form, made within `opens_at` /
+       `closes_at`
+
+  ## Notes
+  - Submissions queued offline are synced later with the time they were
+    collected as `created_at`. The window is checked against the earlier of
+    that and now, so they are accepted if they were collected while the form
+    was open, but a future `created_at` can't get round `closes_at`
+  - Closing or archiving a form rejects queued submissions that have not been
+    synced yet
+*/
+
+DROP POLICY IF EXISTS "Users can create submissions" ON submissions;
+
+CREATE POLICY "Users can create submissions"
+  ON submissions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    form_id IN (
+      SELECT f.id FROM forms f
+      JOIN projects p ON f.project_id = p.id
+      WHERE p.company_id = public.get_user_company_id(auth.uid())
+        AND (
+          (submissions.is_test AND f.status = 'draft')
+          OR (
+            NOT submissions.is_test
+            AND f.status = 'published'
+            AND (f.opens_at IS NULL OR least(submissions.created_at, now()) >= f.opens_at)
+            AND (f.closes_at IS NULL OR least(submissions.created_at, now()) < f.closes_at)
+          )
+        )
+    )
+  );
@@ -0,0 +1,31 @@
+/*
+  # Store form media per version
+
+  ## Problem
+  Form media was stored under `<project_id>/<form_id>/<file name>`. Publishing
+  a new version with a file of the same name overwrote the file that earlier
+  versions, and forms already downloaded to devices, still pointed at.
+
+  ## Changes
+  1. New uploads are stored under
+     `<project_id>/<form_id>/<version>/<file name>` (done by the app; the
+     bucket and its folder-based policies are unchanged)
+  2. Storage policy: admins can replace their projects' form media, so a
+     publish that is retried for the same version can upload its files again
+
+  ## Notes
+  - `media_files` keeps the full path of every file, so media uploaded under
+    the old layout stays readable and is not moved
+*/
+
+CREATE POLICY "Admins can replace form media"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'form-media' AND
+    public.get_user_role(auth.uid()) = 'admin' AND
+    (storage.foldername(name))[1] IN (
+      SELECT id::text FROM projects
+      WHERE company_id = public.get_user_company_id(auth.uid())
+    )
+  );